@@ -2,11 +2,24 @@ import { Pool, PoolClient } from 'pg';
 import { 
   QueryExecutor, 
   SQLQuery, 
+  StreamOptions,
   QueryLogEntry,
   QueryLogger,
   ConsoleQueryLogger
 } from '../types';
 
+const DEFAULT_STREAM_BATCH_SIZE = 1000;
+let cursorCounter = 0;
+
+// FETCH takes the batch size as a literal, so only positive integers are accepted
+function getBatchSize(options: StreamOptions): number {
+  const batchSize = options.batchSize ?? DEFAULT_STREAM_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Invalid stream batch size '${batchSize}': use a positive integer`);
+  }
+  return batchSize;
+}
+
 export type LogLevel = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'COUNT';
 
 export interface LoggingConfig {
@@ -79,21 +92,7 @@ export class PostgreSQLAdapter implements QueryExecutor {
     
     try {
       const result = await client.query(query.sql, query.params);
-      
-      // Log the query if logging is enabled
-      if (this.shouldLogQuery(query.sql)) {
-        const executionTime = Date.now() - startTime;
-        const operation = this.getOperationType(query.sql);
-        
-        this.loggingConfig.logger?.log({
-          sql: query.sql,
-          params: query.params,
-          executionTime,
-          timestamp: new Date(),
-          operation
-        });
-      }
-      
+      this.logQuery(query, startTime);
       return result.rows;
     } finally {
       client.release();
@@ -106,27 +105,67 @@ export class PostgreSQLAdapter implements QueryExecutor {
     
     try {
       const result = await client.query(query.sql, query.params);
-      
-      // Log the query if logging is enabled
-      if (this.shouldLogQuery(query.sql)) {
-        const executionTime = Date.now() - startTime;
-        const operation = this.getOperationType(query.sql);
-        
-        this.loggingConfig.logger?.log({
-          sql: query.sql,
-          params: query.params,
-          executionTime,
-          timestamp: new Date(),
-          operation
-        });
-      }
-      
+      this.logQuery(query, startTime);
       return result.rows[0] || null;
     } finally {
       client.release();
     }
   }
 
+  // Iterate rows through a server-side cursor on a dedicated connection.
+  // Breaking out of the loop early rolls back the transaction, which closes the cursor.
+  async *stream<T>(query: SQLQuery, options: StreamOptions = {}): AsyncGenerator<T> {
+    const batchSize = getBatchSize(options);
+    const cursorName = `querio_cursor_${++cursorCounter}`;
+    const startTime = Date.now();
+    const client = await this.pool.connect();
+    let committed = false;
+    let releaseError: Error | undefined;
+
+    try {
+      await client.query('BEGIN');
+      await client.query(`DECLARE ${cursorName} NO SCROLL CURSOR FOR ${query.sql}`, query.params);
+      this.logQuery(query, startTime);
+
+      while (true) {
+        const result = await client.query(`FETCH ${batchSize} FROM ${cursorName}`);
+        for (const row of result.rows) {
+          yield row;
+        }
+        if (result.rows.length < batchSize) break;
+      }
+
+      await client.query(`CLOSE ${cursorName}`);
+      await client.query('COMMIT');
+      committed = true;
+    } finally {
+      if (!committed) {
+        try {
+          await client.query('ROLLBACK');
+        } catch (error) {
+          // Discard the connection rather than returning it to the pool in a broken state
+          releaseError = error as Error;
+        }
+      }
+      client.release(releaseError);
+    }
+  }
+
+  // Log the query if logging is enabled
+  private logQuery(query: SQLQuery, startTime: number): void {
+    if (!this.shouldLogQuery(query.sql)) {
+      return;
+    }
+
+    this.loggingConfig.logger?.log({
+      sql: query.sql,
+      params: query.params,
+      executionTime: Date.now() - startTime,
+      timestamp: new Date(),
+      operation: this.getOperationType(query.sql)
+    });
+  }
+
   // Check if query should be logged based on configuration
   private shouldLogQuery(sql: string): boolean {
     if (!this.loggingConfig.enabled) {
@@ -175,6 +214,16 @@ export class PostgreSQLAdapter implements QueryExecutor {
     }
   }
 
+  // Run callback on one dedicated connection, e.g. to hold a session-level advisory lock
+  async withConnection<T>(callback: (executor: TransactionExecutor) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      return await callback(new TransactionExecutor(client));
+    } finally {
+      client.release();
+    }
+  }
+
   async close(): Promise<void> {
     await this.pool.end();
   }
@@ -191,7 +240,7 @@ export class PostgreSQLAdapter implements QueryExecutor {
   }
 }
 
-// Transaction executor for use within transactions
+// Executor bound to a single client, for use within transactions and dedicated connections
 export class TransactionExecutor implements QueryExecutor {
   constructor(private client: PoolClient) {}
 
@@ -204,4 +253,31 @@ export class TransactionExecutor implements QueryExecutor {
     const result = await this.client.query(query.sql, query.params);
     return result.rows[0] || null;
   }
+
+  // Cursors live inside the surrounding transaction, so only the cursor itself needs closing.
+  // A failed FETCH aborts the transaction, which drops the cursor and would fail CLOSE as well,
+  // so the cursor is only closed when no error occurred and the original error is rethrown.
+  async *stream<T>(query: SQLQuery, options: StreamOptions = {}): AsyncGenerator<T> {
+    const batchSize = getBatchSize(options);
+    const cursorName = `querio_cursor_${++cursorCounter}`;
+
+    await this.client.query(`DECLARE ${cursorName} NO SCROLL CURSOR FOR ${query.sql}`, query.params);
+    let failed = false;
+    try {
+      while (true) {
+        const result = await this.client.query(`FETCH ${batchSize} FROM ${cursorName}`);
+        for (const row of result.rows) {
+          yield row;
+        }
+        if (result.rows.length < batchSize) break;
+      }
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      if (!failed) {
+        await this.client.query(`CLOSE ${cursorName}`);
+      }
+    }
+  }
 }
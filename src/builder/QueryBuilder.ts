@@ -1,24 +1,91 @@
+import { Readable } from 'stream';
 import { 
   WhereCondition, 
   OrderBy, 
+  OrderByExpression,
+  JsonCondition,
   SelectFields, 
   SelectedType, 
   JoinCondition,
+  JoinRelationOptions,
+  ConflictTarget,
+  UpsertOptions,
   SQLQuery,
+  QueryOperation,
+  ExplainOptions,
+  ExplainPlan,
+  Subquery,
+  CteSource,
+  CteOptions,
+  RecursiveCteOptions,
+  StreamOptions,
   QueryExecutor,
   FieldsDefinition,
+  FieldDefinition,
+  SearchQuery,
   getColumnName,
+  getPrimaryKeyField,
   mapFieldsToColumns,
   mapRowsToEntities,
   mapColumnsToFields
 } from '../types';
+import { getRegisteredModelByTable, resolveRegisteredModel } from '../core/modelRegistry';
+import {
+  AggregateExpression,
+  AggregateComparison,
+  AggregateCondition,
+  AggregateFunction,
+  AggregateRow,
+  AggregateSelection,
+  GroupedBy,
+  SumValue
+} from './aggregates';
+import { ColumnReference } from './references';
+import { FieldExpression, SqlFragment, raw, sql } from './sql';
+import { WindowExpression } from './windows';
+import { JsonSetExpression } from './json';
+import { searchLanguage } from './search';
+import { deserializeFieldValue, serializeFieldValue } from '../core/codecs';
+import { assertValid } from '../core/validation';
+
+type HavingCondition<T> = WhereCondition<T> | AggregateComparison;
+
+// A named common table expression; recursive CTEs union the anchor with the recursive term
+interface CteDefinition {
+  name: string;
+  source: CteSource;
+  recursive?: CteSource;
+  unionAll: boolean;
+  columns?: string[];
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const JSON_OPERATORS = ['contains', 'containedBy', 'hasKey', 'hasAnyKeys', 'hasAllKeys'];
+
+// Deep copy plain objects and arrays while keeping Dates and expression instances intact
+function cloneCondition<C>(value: C): C {
+  if (Array.isArray(value)) {
+    return value.map(item => cloneCondition(item)) as unknown as C;
+  }
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const copy: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      copy[key] = cloneCondition(item);
+    });
+    return copy as C;
+  }
+  return value;
+}
 
 export class QueryBuilder<T> {
   private whereConditions: WhereCondition<T>[] = [];
   private orderByConditions: OrderBy<T>[] = [];
   private joinConditions: JoinCondition[] = [];
   private groupByFields: (keyof T)[] = [];
-  private havingConditions: WhereCondition<T>[] = [];
+  private havingConditions: HavingCondition<T>[] = [];
+  private cteDefinitions: CteDefinition[] = [];
+  private fromTable?: string;
   private limitValue?: number;
   private offsetValue?: number;
 
@@ -33,18 +100,18 @@ export class QueryBuilder<T> {
     const cloned = new QueryBuilder<T>(this.tableName, this.executor, this.fieldsDefinition);
     
     // Deep copy all the query state
-    cloned.whereConditions = [...this.whereConditions.map(condition => 
-      JSON.parse(JSON.stringify(condition))
-    )];
+    cloned.whereConditions = this.whereConditions.map(condition => cloneCondition(condition));
     cloned.orderByConditions = [...this.orderByConditions.map(order => 
-      typeof order === 'string' ? order : JSON.parse(JSON.stringify(order))
+      typeof order === 'string' || order instanceof SqlFragment ? order : JSON.parse(JSON.stringify(order))
     )];
     cloned.joinConditions = [...this.joinConditions.map(join => ({ ...join }))];
     cloned.groupByFields = [...this.groupByFields];
-    cloned.havingConditions = [...this.havingConditions.map(condition => 
-      JSON.parse(JSON.stringify(condition))
-    )];
+    cloned.havingConditions = this.havingConditions.map(condition => cloneCondition(condition));
+    cloned.cteDefinitions = this.cteDefinitions.map(cte => ({ ...cte }));
     
+    if (this.fromTable !== undefined) {
+      cloned.fromTable = this.fromTable;
+    }
     if (this.limitValue !== undefined) {
       cloned.limitValue = this.limitValue;
     }
@@ -55,11 +122,22 @@ export class QueryBuilder<T> {
     return cloned;
   }
 
+  // Field definitions of the model, keyed by entity field name
+  getFieldsDefinition(): FieldsDefinition {
+    return this.fieldsDefinition;
+  }
+
   // Helper method to convert entity field names to database column names
   private getColumnName(field: string): string {
     return getColumnName(field, this.fieldsDefinition[field]);
   }
 
+  // Column for a field in a SELECT, qualified with the table once a join could make it ambiguous
+  private columnReference(field: string): string {
+    const column = this.getColumnName(field);
+    return this.joinConditions.length > 0 ? `${this.fromTable ?? this.tableName}.${column}` : column;
+  }
+
   // Where methods
   where(condition: WhereCondition<T>): this {
     // Check if condition is an empty object
@@ -86,6 +164,7 @@ export class QueryBuilder<T> {
 
   private isEmptyCondition(condition: WhereCondition<T>): boolean {
     if (!condition || typeof condition !== 'object') return false;
+    if (condition instanceof SqlFragment) return false;
     
     // Check if it's an empty object
     const keys = Object.keys(condition);
@@ -120,34 +199,68 @@ export class QueryBuilder<T> {
     return this;
   }
 
-  // Order by methods
-  orderBy(field: keyof T, direction: 'asc' | 'desc' = 'asc'): this {
-    this.orderByConditions.push({ [field]: direction } as OrderBy<T>);
+  // Order by methods - a field, a JSON path, or an expression built with sql`...`
+  orderBy(field: OrderByExpression<T>, direction: 'asc' | 'desc' = 'asc'): this {
+    this.orderByConditions.push(this.toOrderBy(field, direction));
     return this;
   }
 
-  // Group by methods
-  groupBy(...fields: (keyof T)[]): this {
-    this.groupByFields.push(...fields);
+  private toOrderBy(field: OrderByExpression<T>, direction: 'asc' | 'desc'): OrderBy<T> {
+    const sqlDirection = raw(direction === 'desc' ? 'DESC' : 'ASC');
+    if (field instanceof FieldExpression) {
+      return sql`${field.toSQL(this.fieldsDefinition)} ${sqlDirection}`;
+    }
+    if (field instanceof SqlFragment) {
+      return sql`${field} ${sqlDirection}`;
+    }
+    return { [field]: direction } as OrderBy<T>;
+  }
+
+  // Remove every ORDER BY term, e.g. before keyset pagination sets its own ordering
+  clearOrderBy(): this {
+    this.orderByConditions = [];
     return this;
   }
 
-  addGroupBy(...fields: (keyof T)[]): this {
+  // Group by methods - the grouped fields are tracked in the type for aggregate()
+  groupBy<K extends keyof T>(...fields: K[]): this & GroupedBy<K> {
     this.groupByFields.push(...fields);
-    return this;
+    return this as this & GroupedBy<K>;
+  }
+
+  addGroupBy<K extends keyof T>(...fields: K[]): this & GroupedBy<K> {
+    this.groupByFields.push(...fields);
+    return this as this & GroupedBy<K>;
   }
 
-  // Having methods (used with GROUP BY)
-  having(condition: WhereCondition<T>): this {
-    this.havingConditions = [condition];
+  // Having methods (used with GROUP BY), on fields or on aggregates like sum('amount')
+  having(condition: WhereCondition<T>): this;
+  having(aggregate: AggregateExpression<AggregateFunction, Extract<keyof T, string>>, condition: AggregateCondition): this;
+  having(conditionOrAggregate: WhereCondition<T> | AggregateExpression, condition?: AggregateCondition): this {
+    this.havingConditions = [this.toHavingCondition(conditionOrAggregate, condition)];
     return this;
   }
 
-  andHaving(condition: WhereCondition<T>): this {
-    this.havingConditions.push(condition);
+  andHaving(condition: WhereCondition<T>): this;
+  andHaving(aggregate: AggregateExpression<AggregateFunction, Extract<keyof T, string>>, condition: AggregateCondition): this;
+  andHaving(conditionOrAggregate: WhereCondition<T> | AggregateExpression, condition?: AggregateCondition): this {
+    this.havingConditions.push(this.toHavingCondition(conditionOrAggregate, condition));
     return this;
   }
 
+  private toHavingCondition(
+    conditionOrAggregate: WhereCondition<T> | AggregateExpression,
+    condition?: AggregateCondition
+  ): HavingCondition<T> {
+    if (conditionOrAggregate instanceof AggregateExpression) {
+      if (condition === undefined) {
+        throw new Error('A condition is required when filtering on an aggregate');
+      }
+      return new AggregateComparison(conditionOrAggregate, condition);
+    }
+    return conditionOrAggregate;
+  }
+
   // Limit and offset
   limit(count: number): this {
     this.limitValue = count;
@@ -159,28 +272,153 @@ export class QueryBuilder<T> {
     return this;
   }
 
-  // Join methods
-  innerJoin(table: string, on: string, alias?: string): this {
+  clearOffset(): this {
+    delete this.offsetValue;
+    return this;
+  }
+
+  // Common table expressions - the CTE parameters are merged into the outer query
+  withCte(name: string, source: CteSource, options: CteOptions = {}): this {
+    this.cteDefinitions.push(this.toCteDefinition(name, source, undefined, true, options));
+    return this;
+  }
+
+  // Recursive CTE: the recursive term can reference the CTE by name
+  withRecursive(name: string, anchor: CteSource, recursive: CteSource, options: RecursiveCteOptions = {}): this {
+    this.cteDefinitions.push(this.toCteDefinition(name, anchor, recursive, options.unionAll ?? true, options));
+    return this;
+  }
+
+  // Select from a CTE (or another relation) instead of the model's table
+  from(name: string): this {
+    if (!IDENTIFIER_PATTERN.test(name)) {
+      throw new Error(`Invalid table name '${name}'`);
+    }
+    this.fromTable = name;
+    return this;
+  }
+
+  private toCteDefinition(
+    name: string,
+    source: CteSource,
+    recursive: CteSource | undefined,
+    unionAll: boolean,
+    options: CteOptions
+  ): CteDefinition {
+    if (!IDENTIFIER_PATTERN.test(name)) {
+      throw new Error(`Invalid CTE name '${name}'`);
+    }
+    const invalidColumn = options.columns?.find(column => !IDENTIFIER_PATTERN.test(column));
+    if (invalidColumn) {
+      throw new Error(`Invalid column '${invalidColumn}' for CTE '${name}'`);
+    }
+
+    const definition: CteDefinition = { name, source, unionAll };
+    if (recursive) definition.recursive = recursive;
+    if (options.columns) definition.columns = options.columns;
+    return definition;
+  }
+
+  // Join methods - prefer an sql`...` fragment for ON clauses that contain values
+  innerJoin(table: string, on: string | SqlFragment, alias?: string): this {
     const joinCondition: JoinCondition = { table, type: 'inner', on };
     if (alias) joinCondition.alias = alias;
     this.joinConditions.push(joinCondition);
     return this;
   }
 
-  leftJoin(table: string, on: string, alias?: string): this {
+  leftJoin(table: string, on: string | SqlFragment, alias?: string): this {
     const joinCondition: JoinCondition = { table, type: 'left', on };
     if (alias) joinCondition.alias = alias;
     this.joinConditions.push(joinCondition);
     return this;
   }
 
-  rightJoin(table: string, on: string, alias?: string): this {
+  rightJoin(table: string, on: string | SqlFragment, alias?: string): this {
     const joinCondition: JoinCondition = { table, type: 'right', on };
     if (alias) joinCondition.alias = alias;
     this.joinConditions.push(joinCondition);
     return this;
   }
 
+  // Join a relation declared on this model, resolving tables and keys from the model registry
+  joinRelation(relationName: string, options: JoinRelationOptions = {}): this {
+    const source = getRegisteredModelByTable(this.tableName);
+    const relation = source?.actualRelations[relationName];
+    if (!source || !relation) {
+      throw new Error(`Relation '${relationName}' not found for table '${this.tableName}'`);
+    }
+
+    const target = resolveRegisteredModel(relation.targetModel);
+    if (!target) {
+      throw new Error(`Model '${relation.targetModel}' of relation '${relationName}' is not registered`);
+    }
+    const targetTable = target.table;
+    const targetFields = target.actualFields;
+    const sourceFields = source.actualFields;
+    const type = options.type || 'inner';
+    const alias = options.alias || relationName;
+    const localKey = relation.localKey || 'id';
+
+    switch (relation.type) {
+      case 'hasOne':
+      case 'hasMany': {
+        const foreignColumn = getColumnName(relation.foreignKey, targetFields[relation.foreignKey]);
+        const localColumn = getColumnName(localKey, sourceFields[localKey]);
+        this.joinConditions.push({
+          table: targetTable,
+          type,
+          on: `${alias}.${foreignColumn} = ${this.tableName}.${localColumn}`,
+          alias
+        });
+        break;
+      }
+
+      case 'belongsTo': {
+        const foreignColumn = getColumnName(relation.foreignKey, sourceFields[relation.foreignKey]);
+        const targetColumn = getColumnName(localKey, targetFields[localKey]);
+        this.joinConditions.push({
+          table: targetTable,
+          type,
+          on: `${this.tableName}.${foreignColumn} = ${alias}.${targetColumn}`,
+          alias
+        });
+        break;
+      }
+
+      case 'belongsToMany': {
+        // Two hops: source -> pivot table -> target table
+        const pivot = resolveRegisteredModel(relation.pivotTable);
+        const pivotTable = pivot ? pivot.table : relation.pivotTable;
+        const pivotFields = pivot ? pivot.actualFields : {};
+        const pivotAlias = options.pivotAlias || `${alias}_pivot`;
+        const pivotLocalKey = relation.pivotLocalKey || 'id';
+
+        const pivotForeignColumn = getColumnName(relation.pivotForeignKey, pivotFields[relation.pivotForeignKey]);
+        const pivotRelatedColumn = getColumnName(relation.pivotRelatedKey, pivotFields[relation.pivotRelatedKey]);
+        const localColumn = getColumnName(pivotLocalKey, sourceFields[pivotLocalKey]);
+        const targetKey = getPrimaryKeyField(targetFields);
+        const targetColumn = getColumnName(targetKey, targetFields[targetKey]);
+
+        this.joinConditions.push({
+          table: pivotTable,
+          type,
+          on: `${pivotAlias}.${pivotForeignColumn} = ${this.tableName}.${localColumn}`,
+          alias: pivotAlias
+        });
+        this.joinConditions.push({
+          table: targetTable,
+          type,
+          on: `${alias}.${targetColumn} = ${pivotAlias}.${pivotRelatedColumn}`,
+          alias
+        });
+        break;
+      }
+    }
+
+    return this;
+  }
+
   // Select with type inference
   select<S extends SelectFields<T>>(fields: S): SelectQueryBuilder<T, S> {
     return new SelectQueryBuilder(this, fields);
@@ -201,12 +439,33 @@ export class QueryBuilder<T> {
     return mapColumnsToFields<T>(row, this.fieldsDefinition);
   }
 
+  // Iterate over records in batches through a server-side cursor instead of buffering them all
+  async *iterate(options: StreamOptions = {}): AsyncGenerator<T> {
+    const query = this.buildSelectQuery();
+    for await (const row of this.streamRows(query, options)) {
+      yield mapColumnsToFields<T>(row, this.fieldsDefinition);
+    }
+  }
+
+  // Object-mode readable stream of records, e.g. for piping into an export
+  stream(options: StreamOptions = {}): Readable {
+    return Readable.from(this.iterate(options));
+  }
+
+  private streamRows(query: SQLQuery, options: StreamOptions): AsyncIterable<Record<string, any>> {
+    if (!this.executor.stream) {
+      throw new Error('The configured executor does not support streaming');
+    }
+    return this.executor.stream<Record<string, any>>(query, options);
+  }
+
   // Pluck a single field
   async pluck<K extends keyof T>(field: K): Promise<T[K][]> {
     const columnName = this.getColumnName(field as string);
-    const query = this.buildSelectQuery([columnName]);
+    const query = this.buildSelectQuery([this.columnReference(field as string)]);
     const results = await this.executor.execute<Record<string, any>>(query);
-    return results.map(row => row[columnName]);
+    const fieldDef = this.fieldsDefinition[field as string];
+    return results.map(row => deserializeFieldValue(row[columnName], fieldDef) as T[K]);
   }
 
   // Update records
@@ -230,35 +489,171 @@ export class QueryBuilder<T> {
     return parseInt(result?.count || '0');
   }
 
-  // Insert records
-  async insert(data: Partial<T>): Promise<T> {
-    const query = this.buildInsertQuery(data);
+  // Aggregates over the matching records
+  async sum<K extends keyof T>(field: K): Promise<SumValue<T[K]>> {
+    return this.aggregateValue(new AggregateExpression('sum', field as string)) as Promise<SumValue<T[K]>>;
+  }
+
+  async avg<K extends keyof T>(field: K): Promise<number | null> {
+    return this.aggregateValue(new AggregateExpression('avg', field as string)) as Promise<number | null>;
+  }
+
+  async min<K extends keyof T>(field: K): Promise<T[K] | null> {
+    return this.aggregateValue(new AggregateExpression('min', field as string)) as Promise<T[K] | null>;
+  }
+
+  async max<K extends keyof T>(field: K): Promise<T[K] | null> {
+    return this.aggregateValue(new AggregateExpression('max', field as string)) as Promise<T[K] | null>;
+  }
+
+  // Select aggregates, one row per group when combined with groupBy()
+  async aggregate<A extends AggregateSelection<Extract<keyof T, string>>, G extends keyof T = never>(
+    this: QueryBuilder<T> & GroupedBy<G>,
+    aggregates: A
+  ): Promise<AggregateRow<T, G, A>[]> {
+    const groupColumns = this.groupByFields.map(field => this.columnReference(field as string));
+    const aggregateColumns = Object.entries(aggregates).map(
+      ([alias, expression]) => `${expression.toSQL(this.fieldsDefinition)} AS "${alias.replace(/"/g, '""')}"`
+    );
+    const query = this.buildSelectQuery([...groupColumns, ...aggregateColumns]);
     const rows = await this.executor.execute<Record<string, any>>(query);
-    return mapRowsToEntities<T>(rows, this.fieldsDefinition)[0];
+
+    return rows.map(row => {
+      const groupValues: Record<string, any> = { ...row };
+      Object.keys(aggregates).forEach(alias => delete groupValues[alias]);
+      const result: Record<string, any> = mapColumnsToFields(groupValues, this.fieldsDefinition);
+      Object.entries(aggregates).forEach(([alias, expression]) => {
+        result[alias] = expression.parseValue(row[alias], this.fieldsDefinition);
+      });
+      return result as AggregateRow<T, G, A>;
+    });
+  }
+
+  private async aggregateValue(expression: AggregateExpression): Promise<unknown> {
+    const query = this.buildSelectQuery([`${expression.toSQL(this.fieldsDefinition)} AS value`]);
+    const result = await this.executor.executeOne<{ value: unknown }>(query);
+    return expression.parseValue(result?.value, this.fieldsDefinition);
   }
 
-  // Insert multiple records
-  async insertMany(data: Partial<T>[]): Promise<T[]> {
-    const query = this.buildInsertManyQuery(data);
+  // Insert records - await directly, or chain onConflict() with merge() / ignore() for an upsert
+  insert(data: Partial<T>): InsertQueryBuilder<T, T> {
+    return new InsertQueryBuilder<T, T>(async onConflict => {
+      const query = this.buildInsertQuery(data, onConflict);
+      const rows = await this.executor.execute<Record<string, any>>(query);
+      return (mapRowsToEntities<T>(rows, this.fieldsDefinition)[0] ?? null) as T;
+    });
+  }
+
+  // Insert multiple records; ignored conflicts are missing from the result
+  insertMany(data: Partial<T>[]): InsertQueryBuilder<T, T[]> {
+    return new InsertQueryBuilder<T, T[]>(async onConflict => {
+      const query = this.buildInsertManyQuery(data, onConflict);
+      const rows = await this.executor.execute<Record<string, any>>(query);
+      return mapRowsToEntities<T>(rows, this.fieldsDefinition);
+    });
+  }
+
+  // INSERT ... ON CONFLICT: update the conflicting record, or skip it with { ignore: true }.
+  // Resolves to null when the record was skipped.
+  async upsert(data: Partial<T>, options: UpsertOptions<T>): Promise<T | null> {
+    const query = this.buildInsertQuery(data, options);
+    const rows = await this.executor.execute<Record<string, any>>(query);
+    return mapRowsToEntities<T>(rows, this.fieldsDefinition)[0] ?? null;
+  }
+
+  // Bulk upsert; skipped records are missing from the result
+  async upsertMany(data: Partial<T>[], options: UpsertOptions<T>): Promise<T[]> {
+    const query = this.buildInsertManyQuery(data, options);
     const rows = await this.executor.execute<Record<string, any>>(query);
     return mapRowsToEntities<T>(rows, this.fieldsDefinition);
   }
 
-  // Build SQL queries
-  private buildSelectQuery(selectFields?: string[]): SQLQuery {
-    let fields = '*';
-    if (selectFields) {
-      const mappedFields = selectFields.map(field => this.getColumnName(field));
-      fields = mappedFields.join(', ');
+  // Render the SQL of an operation without executing it
+  toSQL(operation?: 'select' | 'count' | 'delete'): SQLQuery;
+  toSQL(operation: 'update', data: Partial<T>): SQLQuery;
+  toSQL(operation: 'insert', data: Partial<T> | Partial<T>[]): SQLQuery;
+  toSQL(operation: 'upsert', data: Partial<T> | Partial<T>[], options: UpsertOptions<T>): SQLQuery;
+  toSQL(operation: QueryOperation, data?: Partial<T> | Partial<T>[], options?: UpsertOptions<T>): SQLQuery;
+  toSQL(operation: QueryOperation = 'select', data?: Partial<T> | Partial<T>[], options?: UpsertOptions<T>): SQLQuery {
+    switch (operation) {
+      case 'select':
+        return this.buildSelectQuery();
+      case 'count':
+        return this.buildCountQuery();
+      case 'delete':
+        return this.buildDeleteQuery();
+      case 'update':
+        return this.buildUpdateQuery(data as Partial<T>);
+      case 'insert':
+        return Array.isArray(data)
+          ? this.buildInsertManyQuery(data)
+          : this.buildInsertQuery(data as Partial<T>);
+      case 'upsert':
+        return Array.isArray(data)
+          ? this.buildInsertManyQuery(data, options)
+          : this.buildInsertQuery(data as Partial<T>, options);
+      default:
+        throw new Error(`Unknown query operation '${operation}'`);
+    }
+  }
+
+  // Run EXPLAIN on the select query; the JSON format returns the parsed plan
+  explain(options: ExplainOptions & { format: 'json' }): Promise<ExplainPlan>;
+  explain(options?: ExplainOptions): Promise<string>;
+  async explain(options: ExplainOptions = {}): Promise<ExplainPlan | string> {
+    return this.explainQuery(this.buildSelectQuery(), options);
+  }
+
+  private async explainQuery(query: SQLQuery, options: ExplainOptions): Promise<ExplainPlan | string> {
+    const explainOptions: string[] = [];
+    if (options.analyze) explainOptions.push('ANALYZE');
+    if (options.buffers) explainOptions.push('BUFFERS');
+    if (options.verbose) explainOptions.push('VERBOSE');
+    if (options.format === 'json') explainOptions.push('FORMAT JSON');
+
+    const prefix = explainOptions.length > 0 ? `EXPLAIN (${explainOptions.join(', ')})` : 'EXPLAIN';
+    const rows = await this.executor.execute<{ 'QUERY PLAN': unknown }>({
+      sql: `${prefix} ${query.sql}`,
+      params: query.params
+    });
+
+    if (options.format === 'json') {
+      // node-postgres parses json columns, other drivers may return the raw text
+      const plan = rows[0]?.['QUERY PLAN'];
+      return (typeof plan === 'string' ? JSON.parse(plan) : plan) as ExplainPlan;
     }
-    let sql = `SELECT ${fields} FROM ${this.tableName}`;
+    return rows.map(row => row['QUERY PLAN']).join('\n');
+  }
+
+  // Build SQL queries - selectColumns are already-mapped column names or expressions.
+  // startIndex lets the query be nested in another one without clashing placeholders.
+  private buildSelectQuery(selectColumns?: (string | SqlFragment)[], startIndex: number = 1): SQLQuery {
     const params: unknown[] = [];
-    let paramIndex = 1;
+    let paramIndex = startIndex;
+
+    const withClause = this.buildWithClause(params, paramIndex);
+    paramIndex = withClause.nextParamIndex;
+
+    // With joins, * would return the joined columns too and let them overwrite the model's
+    const defaultColumns = this.joinConditions.length > 0 ? [`${this.fromTable ?? this.tableName}.*`] : ['*'];
+    const columns = (selectColumns || defaultColumns).map(column => {
+      if (typeof column === 'string') return column;
+      const result = this.buildFragment(column, params, paramIndex);
+      paramIndex = result.nextParamIndex;
+      return result.clause;
+    });
+    let sql = `${withClause.clause}SELECT ${columns.join(', ')} FROM ${this.fromTable ?? this.tableName}`;
 
     // Add JOINs
     this.joinConditions.forEach(join => {
       const alias = join.alias ? ` AS ${join.alias}` : '';
-      sql += ` ${join.type.toUpperCase()} JOIN ${join.table}${alias} ON ${join.on}`;
+      let on = join.on;
+      if (on instanceof SqlFragment) {
+        const result = this.buildFragment(on, params, paramIndex);
+        on = result.clause;
+        paramIndex = result.nextParamIndex;
+      }
+      sql += ` ${join.type.toUpperCase()} JOIN ${join.table}${alias} ON ${on}`;
     });
 
     // Add WHERE conditions
@@ -270,13 +665,13 @@ export class QueryBuilder<T> {
 
     // Add GROUP BY
     if (this.groupByFields.length > 0) {
-      const groupByColumns = this.groupByFields.map(field => this.getColumnName(field as string));
+      const groupByColumns = this.groupByFields.map(field => this.columnReference(field as string));
       sql += ` GROUP BY ${groupByColumns.join(', ')}`;
     }
 
     // Add HAVING conditions (only valid with GROUP BY)
     if (this.havingConditions.length > 0) {
-      const havingClause = this.buildWhereClause(this.havingConditions, params, paramIndex);
+      const havingClause = this.buildHavingClause(params, paramIndex);
       sql += ` HAVING ${havingClause.clause}`;
       paramIndex = havingClause.nextParamIndex;
     }
@@ -284,12 +679,17 @@ export class QueryBuilder<T> {
     // Add ORDER BY
     if (this.orderByConditions.length > 0) {
       const orderParts = this.orderByConditions.map(order => {
+        if (order instanceof SqlFragment) {
+          const result = this.buildFragment(order, params, paramIndex);
+          paramIndex = result.nextParamIndex;
+          return result.clause;
+        }
         if (typeof order === 'string') {
-          const columnName = this.getColumnName(order);
+          const columnName = this.columnReference(order);
           return `${columnName} ASC`;
         }
         return Object.entries(order).map(([field, direction]) => {
-          const columnName = this.getColumnName(field);
+          const columnName = this.columnReference(field);
           return `${columnName} ${direction.toUpperCase()}`;
         }).join(', ');
       });
@@ -314,11 +714,23 @@ export class QueryBuilder<T> {
   }
 
   private buildUpdateQuery(data: Partial<T>): SQLQuery {
-    const mappedData = mapFieldsToColumns(data, this.fieldsDefinition);
-    const setClause = Object.keys(mappedData).map((key, index) => `${key} = $${index + 1}`).join(', ');
+    assertValid(data, this.fieldsDefinition);
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    // jsonSet() values update paths inside the stored document instead of replacing it
+    const setClause = Object.entries(data).map(([field, value]) => {
+      const fieldDef = this.fieldsDefinition[field];
+      const column = getColumnName(field, fieldDef);
+      if (value instanceof JsonSetExpression) {
+        const result = this.buildFragment(value.toSQL(column), params, paramIndex);
+        paramIndex = result.nextParamIndex;
+        return `${column} = ${result.clause}`;
+      }
+      params.push(serializeFieldValue(value, fieldDef));
+      return `${column} = $${paramIndex++}`;
+    }).join(', ');
     let sql = `UPDATE ${this.tableName} SET ${setClause}`;
-    const params: unknown[] = Object.values(mappedData);
-    let paramIndex = params.length + 1;
 
     // Add WHERE conditions
     if (this.whereConditions.length > 0) {
@@ -346,33 +758,32 @@ export class QueryBuilder<T> {
   }
 
   private buildCountQuery(): SQLQuery {
-    let sql = `SELECT COUNT(*) as count FROM ${this.tableName}`;
     const params: unknown[] = [];
     let paramIndex = 1;
+    let whereSql = '';
+
+    const withClause = this.buildWithClause(params, paramIndex);
+    paramIndex = withClause.nextParamIndex;
+    const fromTable = this.fromTable ?? this.tableName;
 
     // Add WHERE conditions
     if (this.whereConditions.length > 0) {
       const whereClause = this.buildWhereClause(this.whereConditions, params, paramIndex);
-      sql += ` WHERE ${whereClause.clause}`;
+      whereSql = ` WHERE ${whereClause.clause}`;
       paramIndex = whereClause.nextParamIndex;
     }
 
+    let sql = `${withClause.clause}SELECT COUNT(*) as count FROM ${fromTable}${whereSql}`;
+
     // If GROUP BY is used, we need to count the number of groups
     if (this.groupByFields.length > 0) {
       const groupByColumns = this.groupByFields.map(field => this.getColumnName(field as string));
-      sql = `SELECT COUNT(*) as count FROM (SELECT 1 FROM ${this.tableName}`;
-      
-      // Add WHERE conditions for subquery
-      if (this.whereConditions.length > 0) {
-        const whereClause = this.buildWhereClause(this.whereConditions, params, 1);
-        sql += ` WHERE ${whereClause.clause}`;
-      }
-      
+      sql = `${withClause.clause}SELECT COUNT(*) as count FROM (SELECT 1 FROM ${fromTable}${whereSql}`;
       sql += ` GROUP BY ${groupByColumns.join(', ')}`;
       
       // Add HAVING conditions for subquery
       if (this.havingConditions.length > 0) {
-        const havingClause = this.buildWhereClause(this.havingConditions, params, paramIndex);
+        const havingClause = this.buildHavingClause(params, paramIndex);
         sql += ` HAVING ${havingClause.clause}`;
       }
       
@@ -382,21 +793,24 @@ export class QueryBuilder<T> {
     return { sql, params };
   }
 
-  private buildInsertQuery(data: Partial<T>): SQLQuery {
+  private buildInsertQuery(data: Partial<T>, onConflict?: UpsertOptions<T>): SQLQuery {
+    assertValid(data, this.fieldsDefinition);
     const mappedData = mapFieldsToColumns(data, this.fieldsDefinition);
     const columns = Object.keys(mappedData).join(', ');
     const values = Object.keys(mappedData).map((_, index) => `$${index + 1}`).join(', ');
+    const conflictClause = onConflict ? this.buildOnConflictClause(onConflict, Object.keys(mappedData)) : '';
     
-    const sql = `INSERT INTO ${this.tableName} (${columns}) VALUES (${values}) RETURNING *`;
+    const sql = `INSERT INTO ${this.tableName} (${columns}) VALUES (${values})${conflictClause} RETURNING *`;
     const params = Object.values(mappedData);
     
     return { sql, params };
   }
 
-  private buildInsertManyQuery(data: Partial<T>[]): SQLQuery {
+  private buildInsertManyQuery(data: Partial<T>[], onConflict?: UpsertOptions<T>): SQLQuery {
     if (data.length === 0) {
       throw new Error('Cannot insert empty data array');
     }
+    assertValid(data, this.fieldsDefinition);
     
     // Map all data to columns first
     const mappedData = data.map(item => mapFieldsToColumns(item, this.fieldsDefinition));
@@ -423,12 +837,79 @@ export class QueryBuilder<T> {
       return `(${columns.map((_, colIndex) => `$${colIndex + 1 + rowIndex * columns.length}`).join(', ')})`;
     }).join(', ');
     
-    const sql = `INSERT INTO ${this.tableName} (${columnsStr}) VALUES ${valueRows} RETURNING *`;
+    const conflictClause = onConflict ? this.buildOnConflictClause(onConflict, columns) : '';
+    
+    const sql = `INSERT INTO ${this.tableName} (${columnsStr}) VALUES ${valueRows}${conflictClause} RETURNING *`;
     const params = normalizedData.flatMap(item => columns.map(col => item[col]));
     
     return { sql, params };
   }
 
+  // ON CONFLICT clause for upserts; merging without explicit fields updates every inserted column
+  private buildOnConflictClause(onConflict: UpsertOptions<T>, insertedColumns: string[]): string {
+    let target = '';
+    let conflictColumns: string[] = [];
+    if (typeof onConflict.onConflict === 'string') {
+      if (!IDENTIFIER_PATTERN.test(onConflict.onConflict)) {
+        throw new Error(`Invalid constraint name '${onConflict.onConflict}'`);
+      }
+      target = ` ON CONSTRAINT ${onConflict.onConflict}`;
+    } else if (onConflict.onConflict && onConflict.onConflict.length > 0) {
+      conflictColumns = onConflict.onConflict.map(field => this.getColumnName(field as string));
+      target = ` (${conflictColumns.join(', ')})`;
+    }
+
+    if (onConflict.ignore) {
+      return ` ON CONFLICT${target} DO NOTHING`;
+    }
+
+    if (!target) {
+      throw new Error('A conflict target is required to merge on conflict');
+    }
+
+    const mergeColumns = onConflict.merge
+      ? onConflict.merge.map(field => this.getColumnName(field as string))
+      : insertedColumns.filter(column => !conflictColumns.includes(column));
+    if (mergeColumns.length === 0) {
+      return ` ON CONFLICT${target} DO NOTHING`;
+    }
+
+    const setClause = mergeColumns.map(column => `${column} = EXCLUDED.${column}`).join(', ');
+    return ` ON CONFLICT${target} DO UPDATE SET ${setClause}`;
+  }
+
+  // WITH clause for the registered CTEs, including a trailing space when present
+  private buildWithClause(params: unknown[], startIndex: number): { clause: string; nextParamIndex: number } {
+    if (this.cteDefinitions.length === 0) {
+      return { clause: '', nextParamIndex: startIndex };
+    }
+
+    let paramIndex = startIndex;
+    const compile = (source: CteSource): string => {
+      const query = source instanceof SqlFragment
+        ? source.toSQL(paramIndex)
+        : this.compileSubquery(source, paramIndex, 'cte');
+      params.push(...query.params);
+      paramIndex += query.params.length;
+      return query.sql;
+    };
+
+    const ctes = this.cteDefinitions.map(cte => {
+      let body = compile(cte.source);
+      if (cte.recursive) {
+        body += ` ${cte.unionAll ? 'UNION ALL' : 'UNION'} ${compile(cte.recursive)}`;
+      }
+      const columns = cte.columns ? ` (${cte.columns.join(', ')})` : '';
+      return `${cte.name}${columns} AS (${body})`;
+    });
+    const recursive = this.cteDefinitions.some(cte => cte.recursive) ? 'RECURSIVE ' : '';
+
+    return {
+      clause: `WITH ${recursive}${ctes.join(', ')} `,
+      nextParamIndex: paramIndex
+    };
+  }
+
   private buildWhereClause(conditions: WhereCondition<T>[], params: unknown[], startIndex: number): { clause: string; nextParamIndex: number } {
     let paramIndex = startIndex;
     const clauses: string[] = [];
@@ -447,7 +928,33 @@ export class QueryBuilder<T> {
     };
   }
 
+  private buildHavingClause(params: unknown[], startIndex: number): { clause: string; nextParamIndex: number } {
+    let paramIndex = startIndex;
+    const clauses: string[] = [];
+
+    this.havingConditions.forEach(condition => {
+      const result = condition instanceof AggregateComparison
+        ? this.buildComparison(condition.aggregate.toSQL(this.fieldsDefinition), condition.condition, params, paramIndex)
+        : this.buildSingleCondition(condition, params, paramIndex);
+      if (result.clause) {
+        clauses.push(result.clause);
+        paramIndex = result.nextParamIndex;
+      }
+    });
+
+    return {
+      clause: clauses.join(' AND '),
+      nextParamIndex: paramIndex
+    };
+  }
+
   private buildSingleCondition(condition: WhereCondition<T>, params: unknown[], paramIndex: number): { clause: string; nextParamIndex: number } {
+    // Raw SQL conditions are parenthesized so they combine safely with AND / OR
+    if (condition instanceof SqlFragment) {
+      const result = this.buildFragment(condition, params, paramIndex);
+      return { clause: `(${result.clause})`, nextParamIndex: result.nextParamIndex };
+    }
+
     // Handle logical operators
     if ('AND' in condition && condition.AND) {
       const andClauses: string[] = [];
@@ -492,29 +999,20 @@ export class QueryBuilder<T> {
     Object.entries(condition).forEach(([field, value]) => {
       // Skip logical operators
       if (field === 'AND' || field === 'OR') return;
+
+      if (field === 'EXISTS' || field === 'NOT_EXISTS') {
+        if (value === undefined) return;
+        const subquery = this.compileSubquery(value as Subquery, currentParamIndex, 'exists');
+        conditionClauses.push(`${field === 'EXISTS' ? 'EXISTS' : 'NOT EXISTS'} (${subquery.sql})`);
+        params.push(...subquery.params);
+        currentParamIndex += subquery.params.length;
+        return;
+      }
       
-      const columnName = this.getColumnName(field);
-      if (value !== undefined) {
-        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-          // Handle operators like { gt: 10 }
-          Object.entries(value).forEach(([operator, operatorValue]) => {
-            const sqlOperator = this.getSQLOperator(operator);
-            if (operator === 'in' || operator === 'notIn') {
-              const placeholders = (operatorValue as unknown[]).map(() => `$${currentParamIndex++}`).join(', ');
-              conditionClauses.push(`${columnName} ${sqlOperator} (${placeholders})`);
-              params.push(...(operatorValue as unknown[]));
-            } else if (operator === 'isNull' || operator === 'isNotNull') {
-              conditionClauses.push(`${columnName} ${sqlOperator}`);
-            } else {
-              conditionClauses.push(`${columnName} ${sqlOperator} $${currentParamIndex++}`);
-              params.push(operatorValue);
-            }
-          });
-        } else {
-          // Simple equality
-          conditionClauses.push(`${columnName} = $${currentParamIndex++}`);
-          params.push(value);
-        }
+      const result = this.buildComparison(this.columnReference(field), value, params, currentParamIndex, this.fieldsDefinition[field]);
+      if (result.clause) {
+        conditionClauses.push(result.clause);
+        currentParamIndex = result.nextParamIndex;
       }
     });
 
@@ -524,6 +1022,166 @@ export class QueryBuilder<T> {
     };
   }
 
+  // Build the comparison for one left-hand side (a column or an aggregate) against a value or operator object
+  private buildComparison(
+    lhs: string,
+    value: unknown,
+    params: unknown[],
+    paramIndex: number,
+    fieldDef?: FieldDefinition
+  ): { clause: string; nextParamIndex: number } {
+    const conditionClauses: string[] = [];
+    let currentParamIndex = paramIndex;
+
+    if (value !== undefined) {
+      if (value instanceof ColumnReference) {
+        // Correlated reference to another column
+        conditionClauses.push(`${lhs} = ${value.column}`);
+      } else if (value instanceof SqlFragment) {
+        const fragment = this.buildFragment(value, params, currentParamIndex);
+        conditionClauses.push(`${lhs} = ${fragment.clause}`);
+        currentParamIndex = fragment.nextParamIndex;
+      } else if (typeof value === 'object' && value !== null && 'path' in value && Array.isArray(value.path)) {
+        return this.buildJsonPathComparison(lhs, value as JsonCondition, params, paramIndex);
+      } else if (this.isOperatorObject(value)) {
+        // Handle operators like { gt: 10 }
+        Object.entries(value).forEach(([operator, operatorValue]) => {
+          const sqlOperator = this.getSQLOperator(operator);
+          if ((operator === 'in' || operator === 'notIn') && this.isSubquery(operatorValue)) {
+            const subquery = this.compileSubquery(operatorValue, currentParamIndex, 'in');
+            conditionClauses.push(`${lhs} ${sqlOperator} (${subquery.sql})`);
+            params.push(...subquery.params);
+            currentParamIndex += subquery.params.length;
+          } else if (operator === 'in' || operator === 'notIn') {
+            const placeholders = (operatorValue as unknown[]).map(() => `$${currentParamIndex++}`).join(', ');
+            conditionClauses.push(`${lhs} ${sqlOperator} (${placeholders})`);
+            params.push(...(operatorValue as unknown[]).map(item => serializeFieldValue(item, fieldDef)));
+          } else if (operator === 'isNull' || operator === 'isNotNull') {
+            conditionClauses.push(`${lhs} ${sqlOperator}`);
+          } else if (operatorValue instanceof ColumnReference) {
+            conditionClauses.push(`${lhs} ${sqlOperator} ${operatorValue.column}`);
+          } else if (operatorValue instanceof SqlFragment) {
+            const fragment = this.buildFragment(operatorValue, params, currentParamIndex);
+            conditionClauses.push(`${lhs} ${sqlOperator} ${fragment.clause}`);
+            currentParamIndex = fragment.nextParamIndex;
+          } else if (operator === 'has') {
+            conditionClauses.push(`$${currentParamIndex++} = ANY(${lhs})`);
+            params.push(serializeFieldValue(operatorValue, fieldDef?.elementType));
+          } else if (operator === 'search') {
+            // Full-text match; plain text fields are converted with to_tsvector
+            const search = typeof operatorValue === 'string' ? { query: operatorValue } : operatorValue as SearchQuery;
+            const language = searchLanguage(search.language ?? fieldDef?.language);
+            const vector = fieldDef?.type === 'tsvector' ? lhs : `to_tsvector(${language}, ${lhs})`;
+            conditionClauses.push(`${vector} @@ websearch_to_tsquery(${language}, $${currentParamIndex++})`);
+            params.push(search.query);
+          } else if (operator === 'length') {
+            // Compare the number of array elements
+            const result = this.buildComparison(`cardinality(${lhs})`, operatorValue, params, currentParamIndex);
+            conditionClauses.push(result.clause);
+            currentParamIndex = result.nextParamIndex;
+          } else if (JSON_OPERATORS.includes(operator)) {
+            conditionClauses.push(`${lhs} ${sqlOperator} ${this.bindJsonOperand(operator, operatorValue, params, currentParamIndex++)}`);
+          } else {
+            conditionClauses.push(`${lhs} ${sqlOperator} $${currentParamIndex++}`);
+            params.push(operator === 'like' || operator === 'ilike' ? operatorValue : serializeFieldValue(operatorValue, fieldDef));
+          }
+        });
+      } else {
+        // Simple equality
+        conditionClauses.push(`${lhs} = $${currentParamIndex++}`);
+        params.push(serializeFieldValue(value, fieldDef));
+      }
+    }
+
+    return {
+      clause: conditionClauses.join(' AND '),
+      nextParamIndex: currentParamIndex
+    };
+  }
+
+  // Compare the value at a JSON path: jsonb comparisons against JSON-encoded parameters,
+  // LIKE / ILIKE against its text. The path itself is bound once as a text[] parameter.
+  private buildJsonPathComparison(column: string, condition: JsonCondition, params: unknown[], paramIndex: number): { clause: string; nextParamIndex: number } {
+    const { path, ...operators } = condition;
+    const conditionClauses: string[] = [];
+    let currentParamIndex = paramIndex;
+
+    const pathParam = `$${currentParamIndex++}`;
+    params.push(path);
+    const target = `${column} #> ${pathParam}`;
+
+    Object.entries(operators).forEach(([operator, operatorValue]) => {
+      if (operatorValue === undefined) return;
+      const sqlOperator = this.getSQLOperator(operator);
+      if (operator === 'like' || operator === 'ilike') {
+        conditionClauses.push(`${column} #>> ${pathParam} ${sqlOperator} $${currentParamIndex++}`);
+        params.push(operatorValue);
+      } else if (operator === 'isNull' || operator === 'isNotNull') {
+        conditionClauses.push(`${target} ${sqlOperator}`);
+      } else if (operator === 'in' || operator === 'notIn') {
+        const placeholders = (operatorValue as unknown[])
+          .map(item => this.bindJsonOperand(operator, item, params, currentParamIndex++))
+          .join(', ');
+        conditionClauses.push(`${target} ${sqlOperator} (${placeholders})`);
+      } else {
+        conditionClauses.push(`${target} ${sqlOperator} ${this.bindJsonOperand(operator, operatorValue, params, currentParamIndex++)}`);
+      }
+    });
+
+    return {
+      clause: conditionClauses.join(' AND '),
+      nextParamIndex: currentParamIndex
+    };
+  }
+
+  // Bind the right-hand side of a JSONB operator: key names as text / text[], documents as jsonb
+  private bindJsonOperand(operator: string, value: unknown, params: unknown[], paramIndex: number): string {
+    if (operator === 'hasKey' || operator === 'hasAnyKeys' || operator === 'hasAllKeys') {
+      params.push(value);
+      return `$${paramIndex}`;
+    }
+    params.push(JSON.stringify(value));
+    return `$${paramIndex}::jsonb`;
+  }
+
+  // Inline a raw SQL fragment, renumbering its placeholders from the current parameter index
+  private buildFragment(fragment: SqlFragment, params: unknown[], paramIndex: number): { clause: string; nextParamIndex: number } {
+    const compiled = fragment.toSQL(paramIndex);
+    params.push(...compiled.params);
+    return {
+      clause: compiled.sql,
+      nextParamIndex: paramIndex + compiled.params.length
+    };
+  }
+
+  // Plain objects hold operators; class instances such as Date, Buffer or Decimal are values
+  private isOperatorObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+
+  private isSubquery(value: unknown): value is Subquery {
+    return value instanceof QueryBuilder || value instanceof SelectQueryBuilder;
+  }
+
+  // Compile a nested query so that its placeholders continue from the outer query's parameter index.
+  // IN / NOT IN compare against exactly one column, so they need a select() of a single field.
+  private compileSubquery(subquery: Subquery, startIndex: number, usage: 'in' | 'exists' | 'cte'): SQLQuery {
+    if (usage === 'in') {
+      if (!(subquery instanceof SelectQueryBuilder) || subquery.getSelectedColumnCount() !== 1) {
+        throw new Error('IN / NOT IN subqueries must select exactly one column, e.g. Model.where(...).select({ id: true })');
+      }
+    }
+    if (subquery instanceof SelectQueryBuilder) {
+      return subquery.buildSubquery(startIndex);
+    }
+    if (subquery instanceof QueryBuilder) {
+      return subquery.buildSelectQuery(usage === 'exists' ? ['1'] : undefined, startIndex);
+    }
+    throw new Error('Subquery conditions require a QueryBuilder or SelectQueryBuilder');
+  }
+
   private getSQLOperator(operator: string): string {
     const operatorMap: Record<string, string> = {
       'eq': '=',
@@ -537,7 +1195,14 @@ export class QueryBuilder<T> {
       'in': 'IN',
       'notIn': 'NOT IN',
       'isNull': 'IS NULL',
-      'isNotNull': 'IS NOT NULL'
+      'isNotNull': 'IS NOT NULL',
+      'contains': '@>',
+      'containedBy': '<@',
+      'hasKey': '?',
+      'hasAnyKeys': '?|',
+      'hasAllKeys': '?&',
+      'hasEvery': '@>',
+      'hasSome': '&&'
     };
     return operatorMap[operator] || '=';
   }
@@ -579,8 +1244,8 @@ export class SelectQueryBuilder<T, S extends SelectFields<T>> {
     return this;
   }
 
-  orderBy(field: keyof T, direction: 'asc' | 'desc' = 'asc'): this {
-    (this.baseQuery as any).orderByConditions.push({ [field]: direction });
+  orderBy(field: OrderByExpression<T>, direction: 'asc' | 'desc' = 'asc'): this {
+    this.baseQuery.orderBy(field, direction);
     return this;
   }
 
@@ -594,13 +1259,31 @@ export class SelectQueryBuilder<T, S extends SelectFields<T>> {
     return this;
   }
 
-  having(condition: WhereCondition<T>): this {
-    (this.baseQuery as any).havingConditions = [condition];
+  having(condition: WhereCondition<T>): this;
+  having(aggregate: AggregateExpression<AggregateFunction, Extract<keyof T, string>>, condition: AggregateCondition): this;
+  having(
+    conditionOrAggregate: WhereCondition<T> | AggregateExpression<AggregateFunction, Extract<keyof T, string>>,
+    condition?: AggregateCondition
+  ): this {
+    if (conditionOrAggregate instanceof AggregateExpression) {
+      this.baseQuery.having(conditionOrAggregate, condition as AggregateCondition);
+    } else {
+      this.baseQuery.having(conditionOrAggregate);
+    }
     return this;
   }
 
-  andHaving(condition: WhereCondition<T>): this {
-    (this.baseQuery as any).havingConditions.push(condition);
+  andHaving(condition: WhereCondition<T>): this;
+  andHaving(aggregate: AggregateExpression<AggregateFunction, Extract<keyof T, string>>, condition: AggregateCondition): this;
+  andHaving(
+    conditionOrAggregate: WhereCondition<T> | AggregateExpression<AggregateFunction, Extract<keyof T, string>>,
+    condition?: AggregateCondition
+  ): this {
+    if (conditionOrAggregate instanceof AggregateExpression) {
+      this.baseQuery.andHaving(conditionOrAggregate, condition as AggregateCondition);
+    } else {
+      this.baseQuery.andHaving(conditionOrAggregate);
+    }
     return this;
   }
 
@@ -614,25 +1297,94 @@ export class SelectQueryBuilder<T, S extends SelectFields<T>> {
     return this;
   }
 
+  // Aliases of the computed sql`...`, window and field expression columns in the selection
+  private computedAliases(): string[] {
+    return Object.keys(this.selectFields).filter(key => {
+      const selected = this.selectFields[key];
+      return selected instanceof SqlFragment
+        || selected instanceof WindowExpression
+        || selected instanceof FieldExpression;
+    });
+  }
+
+  // Number of columns the selection produces
+  getSelectedColumnCount(): number {
+    return Object.values(this.selectFields).filter(selected => selected).length;
+  }
+
+  // Compile as a nested query whose placeholders continue from startIndex
+  buildSubquery(startIndex: number): SQLQuery {
+    return this.buildQuery(startIndex);
+  }
+
+  // Build the SELECT for the chosen columns, optionally numbering placeholders from startIndex
+  private buildQuery(startIndex: number = 1): SQLQuery {
+    const fieldsDefinition = (this.baseQuery as any).fieldsDefinition;
+    const columns = Object.entries(this.selectFields)
+      .filter(([, selected]) => selected)
+      .map(([field, selected]) => {
+        const alias = raw(`"${field.replace(/"/g, '""')}"`);
+        if (selected instanceof WindowExpression || selected instanceof FieldExpression) {
+          return sql`${selected.toSQL(fieldsDefinition)} AS ${alias}`;
+        }
+        if (selected instanceof SqlFragment) {
+          return sql`${selected} AS ${alias}`;
+        }
+        return (this.baseQuery as any).columnReference(field);
+      });
+    return (this.baseQuery as any).buildSelectQuery(columns, startIndex);
+  }
+
+  // Map columns back to fields, keeping computed columns under their alias
+  private mapRow(row: Record<string, any>): SelectedType<T, S> {
+    const aliases = this.computedAliases();
+    const columns: Record<string, any> = { ...row };
+    aliases.forEach(alias => delete columns[alias]);
+    const fieldsDefinition = (this.baseQuery as any).fieldsDefinition;
+    const result: Record<string, any> = mapColumnsToFields(columns, fieldsDefinition);
+    aliases.forEach(alias => {
+      const selected = this.selectFields[alias];
+      result[alias] = selected instanceof WindowExpression ? selected.parseValue(row[alias], fieldsDefinition) : row[alias];
+    });
+    return result as SelectedType<T, S>;
+  }
+
+  // Render the selected columns query, or the count of matching rows
+  toSQL(operation: 'select' | 'count' = 'select'): SQLQuery {
+    return operation === 'count' ? (this.baseQuery as any).buildCountQuery() : this.buildQuery();
+  }
+
+  explain(options: ExplainOptions & { format: 'json' }): Promise<ExplainPlan>;
+  explain(options?: ExplainOptions): Promise<string>;
+  async explain(options: ExplainOptions = {}): Promise<ExplainPlan | string> {
+    return (this.baseQuery as any).explainQuery(this.buildQuery(), options);
+  }
+
   async getMany(): Promise<SelectedType<T, S>[]> {
-    const fieldNames = Object.keys(this.selectFields).filter(key => this.selectFields[key as keyof S]);
-    const columnNames = fieldNames.map(field => (this.baseQuery as any).getColumnName(field));
-    const query = (this.baseQuery as any).buildSelectQuery(columnNames);
+    const query = this.buildQuery();
     const executor = (this.baseQuery as any).executor as QueryExecutor;
     const rows = await executor.execute<Record<string, any>>(query);
-    const fieldsDefinition = (this.baseQuery as any).fieldsDefinition;
-    return mapRowsToEntities<SelectedType<T, S>>(rows, fieldsDefinition);
+    return rows.map(row => this.mapRow(row));
   }
 
   async getOne(): Promise<SelectedType<T, S> | null> {
-    const fieldNames = Object.keys(this.selectFields).filter(key => this.selectFields[key as keyof S]);
-    const columnNames = fieldNames.map(field => (this.baseQuery as any).getColumnName(field));
-    const query = (this.baseQuery as any).buildSelectQuery(columnNames);
+    const query = this.buildQuery();
     const executor = (this.baseQuery as any).executor as QueryExecutor;
     const row = await executor.executeOne<Record<string, any>>(query);
     if (!row) return null;
-    const fieldsDefinition = (this.baseQuery as any).fieldsDefinition;
-    return mapColumnsToFields<SelectedType<T, S>>(row, fieldsDefinition);
+    return this.mapRow(row);
+  }
+
+  async *iterate(options: StreamOptions = {}): AsyncGenerator<SelectedType<T, S>> {
+    const query = this.buildQuery();
+    const rows: AsyncIterable<Record<string, any>> = (this.baseQuery as any).streamRows(query, options);
+    for await (const row of rows) {
+      yield this.mapRow(row);
+    }
+  }
+
+  stream(options: StreamOptions = {}): Readable {
+    return Readable.from(this.iterate(options));
   }
 
   async count(): Promise<number> {
@@ -642,3 +1394,68 @@ export class SelectQueryBuilder<T, S extends SelectFields<T>> {
     return parseInt(result?.count || '0');
   }
 }
+
+// A single insert resolves to null when ignore() skipped it; a bulk insert leaves the row out
+type IgnoredInsertResult<R> = R extends unknown[] ? R : R | null;
+
+// Promise of an insert. The query runs once, right after the code that created it, so
+// onConflict() with merge() or ignore() can be chained first to turn it into an upsert.
+export class InsertQueryBuilder<T, R> extends Promise<R> {
+  // then() and catch() return plain promises
+  static get [Symbol.species](): PromiseConstructor {
+    return Promise;
+  }
+
+  private conflict: UpsertOptions<T> = {};
+  private action?: 'merge' | 'ignore';
+  private started = false;
+
+  constructor(run: (onConflict?: UpsertOptions<T>) => Promise<R>) {
+    let settle: { resolve: (value: R) => void; reject: (reason: unknown) => void } | undefined;
+    super((resolve, reject) => {
+      settle = { resolve, reject };
+    });
+
+    const { resolve, reject } = settle!;
+    queueMicrotask(() => {
+      this.started = true;
+      if (!this.action && this.conflict.onConflict !== undefined) {
+        reject(new Error('onConflict() must be followed by merge() or ignore()'));
+        return;
+      }
+      run(this.action ? this.conflict : undefined).then(resolve, reject);
+    });
+  }
+
+  // Conflict target: a list of fields, or the name of a unique constraint
+  onConflict(target: ConflictTarget<T>): this {
+    this.assertPending('onConflict');
+    this.conflict.onConflict = target;
+    return this;
+  }
+
+  // Update the given fields, or every inserted field but the target, from the conflicting row
+  merge(fields?: (keyof T)[]): this {
+    this.assertPending('merge');
+    this.action = 'merge';
+    delete this.conflict.ignore;
+    if (fields) {
+      this.conflict.merge = fields;
+    }
+    return this;
+  }
+
+  // Skip conflicting rows, on the target if one was given
+  ignore(): InsertQueryBuilder<T, IgnoredInsertResult<R>> {
+    this.assertPending('ignore');
+    this.action = 'ignore';
+    this.conflict.ignore = true;
+    return this as unknown as InsertQueryBuilder<T, IgnoredInsertResult<R>>;
+  }
+
+  private assertPending(method: string): void {
+    if (this.started) {
+      throw new Error(`${method}() must be chained in the same statement as insert(), before it runs`);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { FieldsDefinition, getColumnName } from '../types';
+import { deserializeFieldValue, getFieldCodec } from '../core/codecs';
+import { WindowExpression, WindowSpec } from './windows';
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface AggregateOptions {
+  distinct?: boolean;
+}
+
+// An aggregate over a single field, or over all rows for COUNT(*)
+export class AggregateExpression<
+  Fn extends AggregateFunction = AggregateFunction,
+  F extends string = string
+> {
+  constructor(
+    readonly fn: Fn,
+    readonly field?: F,
+    readonly distinct: boolean = false
+  ) {}
+
+  // Render the aggregate, resolving the field through the model's column mapping
+  toSQL(fieldsDefinition: FieldsDefinition = {}): string {
+    const fnName = this.fn.toUpperCase();
+    if (!this.field) {
+      return `${fnName}(*)`;
+    }
+    const columnName = getColumnName(this.field, fieldsDefinition[this.field]);
+    return `${fnName}(${this.distinct ? 'DISTINCT ' : ''}${columnName})`;
+  }
+
+  // Use the aggregate as a window function, e.g. sum('amount').over({ orderBy: ['createdAt'] })
+  over<P extends string = never>(spec: WindowSpec<P> = {}): WindowExpression<Fn, F, P> {
+    if (this.distinct) {
+      throw new Error('DISTINCT is not supported in window aggregates');
+    }
+    return new WindowExpression<Fn, F, P>(this.fn, this.field, spec);
+  }
+
+  // node-postgres returns COUNT, SUM over integers and AVG as strings. SUM over bigint and
+  // decimal columns goes through the column's codec, so it keeps the precision of the field.
+  parseValue(value: unknown, fieldsDefinition: FieldsDefinition = {}): unknown {
+    if (value === null || value === undefined) {
+      return this.fn === 'count' ? 0 : null;
+    }
+    if (this.fn === 'count') {
+      return parseInt(String(value));
+    }
+    if (this.fn === 'sum' && this.field && getFieldCodec(fieldsDefinition[this.field])) {
+      return deserializeFieldValue(value, fieldsDefinition[this.field]);
+    }
+    if ((this.fn === 'sum' || this.fn === 'avg') && typeof value === 'string') {
+      return Number(value);
+    }
+    // MIN / MAX return a value of the field itself
+    if (this.field && (this.fn === 'min' || this.fn === 'max')) {
+      return deserializeFieldValue(value, fieldsDefinition[this.field]);
+    }
+    return value;
+  }
+}
+
+// Comparison of an aggregate in a HAVING clause, e.g. SUM(amount) > 100
+export class AggregateComparison {
+  constructor(
+    readonly aggregate: AggregateExpression,
+    readonly condition: AggregateCondition
+  ) {}
+}
+
+type AggregateOperand = number | string | Date;
+
+export type AggregateCondition =
+  | AggregateOperand
+  | {
+      eq?: AggregateOperand;
+      ne?: AggregateOperand;
+      gt?: AggregateOperand;
+      gte?: AggregateOperand;
+      lt?: AggregateOperand;
+      lte?: AggregateOperand;
+      in?: AggregateOperand[];
+      notIn?: AggregateOperand[];
+    };
+
+export type AggregateSelection<F extends string = string> = Record<
+  string,
+  AggregateExpression<AggregateFunction, F>
+>;
+
+// SUM of a field: bigint and codec-mapped decimal fields keep their type, others are numbers
+export type SumValue<V> = NonNullable<V> extends number | bigint | string
+  ? NonNullable<V> | null
+  : number | null;
+
+// Result type of a single aggregate for entity type T
+export type AggregateValue<T, E> = E extends AggregateExpression<'count', any>
+  ? number
+  : E extends AggregateExpression<'sum', infer F>
+  ? F extends keyof T
+    ? SumValue<T[F]>
+    : number | null
+  : E extends AggregateExpression<'avg', any>
+  ? number | null
+  : E extends AggregateExpression<'min' | 'max', infer F>
+  ? F extends keyof T
+    ? T[F] | null
+    : unknown
+  : unknown;
+
+// Row returned by an aggregate select: the grouped fields plus one key per aggregate
+export type AggregateRow<T, G extends keyof T, A extends AggregateSelection> = Pick<T, G> & {
+  [K in keyof A]: AggregateValue<T, A[K]>;
+};
+
+// Phantom marker recording which fields a query builder has been grouped by
+export interface GroupedBy<K extends PropertyKey> {
+  readonly __groupedBy?: { [P in K]: true };
+}
+
+// Aggregate helpers
+export function count<F extends string = never>(
+  field?: F,
+  options: AggregateOptions = {}
+): AggregateExpression<'count', F> {
+  return new AggregateExpression('count', field, options.distinct);
+}
+
+export function sum<F extends string>(field: F, options: AggregateOptions = {}): AggregateExpression<'sum', F> {
+  return new AggregateExpression('sum', field, options.distinct);
+}
+
+export function avg<F extends string>(field: F, options: AggregateOptions = {}): AggregateExpression<'avg', F> {
+  return new AggregateExpression('avg', field, options.distinct);
+}
+
+export function min<F extends string>(field: F): AggregateExpression<'min', F> {
+  return new AggregateExpression('min', field);
+}
+
+export function max<F extends string>(field: F): AggregateExpression<'max', F> {
+  return new AggregateExpression('max', field);
+}
@@ -0,0 +1,65 @@
+import { FieldsDefinition } from '../types';
+import { FieldExpression, SqlFragment, raw, sql } from './sql';
+
+export interface JsonPathOptions {
+  asText?: boolean; // Extract with #>> as text instead of #> as jsonb
+}
+
+// A value inside a json field, addressed by path, e.g. settings -> theme -> color
+export class JsonPathExpression<R = unknown> extends FieldExpression<R> {
+  constructor(
+    readonly field: string,
+    readonly path: string[],
+    readonly asText: boolean = false
+  ) {
+    super();
+    if (path.length === 0) {
+      throw new Error(`A JSON path on field '${field}' needs at least one key`);
+    }
+  }
+
+  // The path is bound as a text[] parameter, so keys never reach the SQL text
+  toSQL(fieldsDefinition: FieldsDefinition = {}): SqlFragment {
+    const column = raw(this.columnFor(this.field, fieldsDefinition));
+    return sql`${column} ${raw(this.asText ? '#>>' : '#>')} ${this.path}`;
+  }
+}
+
+// A partial update of a json field with jsonb_set, one entry per path
+export class JsonSetExpression {
+  // JSON.stringify(undefined) is no JSON text: it would bind NULL and jsonb_set would
+  // null the whole column, so undefined is rejected in favour of an explicit null
+  constructor(readonly assignments: { path: string[]; value: unknown }[]) {
+    const missing = assignments.find(({ value }) => value === undefined);
+    if (missing) {
+      throw new Error(`jsonSet() value for path '${missing.path.join('.')}' is undefined; use null to store JSON null`);
+    }
+  }
+
+  // Set another path in the same document
+  set(path: string[], value: unknown): JsonSetExpression {
+    return new JsonSetExpression([...this.assignments, { path, value }]);
+  }
+
+  // Nest one jsonb_set call per assignment around the current column value
+  toSQL(column: string): SqlFragment {
+    return this.assignments.reduce(
+      (target, { path, value }) => sql`jsonb_set(${target}, ${path}, ${JSON.stringify(value)}::jsonb, true)`,
+      raw(column)
+    );
+  }
+}
+
+// Address a value inside a json field, e.g. jsonPath('settings', ['theme', 'color'])
+export function jsonPath<R = unknown>(
+  field: string,
+  path: string[],
+  options: JsonPathOptions = {}
+): JsonPathExpression<R> {
+  return new JsonPathExpression<R>(field, path, options.asText);
+}
+
+// Update a path inside a json field, e.g. update({ settings: jsonSet(['theme'], 'dark') })
+export function jsonSet(path: string[], value: unknown): JsonSetExpression {
+  return new JsonSetExpression([{ path, value }]);
+}
@@ -0,0 +1,15 @@
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+// A reference to a column of an outer query, used for correlated subqueries
+export class ColumnReference {
+  constructor(readonly column: string) {
+    if (!IDENTIFIER_PATTERN.test(column)) {
+      throw new Error(`Invalid column reference '${column}'`);
+    }
+  }
+}
+
+// Reference a (table-qualified) database column instead of binding a value, e.g. ref('users.id')
+export function ref(column: string): ColumnReference {
+  return new ColumnReference(column);
+}
@@ -0,0 +1,49 @@
+import { FieldsDefinition } from '../types';
+import { FieldExpression, SqlFragment, raw, sql } from './sql';
+
+export const DEFAULT_SEARCH_LANGUAGE = 'english';
+
+const LANGUAGE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Text search configuration as a SQL literal, e.g. 'english'
+export function searchLanguage(language: string = DEFAULT_SEARCH_LANGUAGE): string {
+  if (!LANGUAGE_PATTERN.test(language)) {
+    throw new Error(`Invalid text search language '${language}'`);
+  }
+  return `'${language}'`;
+}
+
+export interface TsRankOptions {
+  language?: string; // Defaults to the field's language, then 'english'
+  normalization?: number; // ts_rank normalization bitmask
+}
+
+// Relevance of a full-text match, for ordering and as a computed select column
+export class TsRankExpression extends FieldExpression<number> {
+  constructor(
+    readonly field: string,
+    readonly query: string,
+    readonly options: TsRankOptions = {}
+  ) {
+    super();
+    const { normalization } = options;
+    if (normalization !== undefined && (!Number.isInteger(normalization) || normalization < 0)) {
+      throw new Error(`Invalid ts_rank normalization '${normalization}'`);
+    }
+  }
+
+  // Plain text fields are converted with to_tsvector, tsvector fields are used as they are
+  toSQL(fieldsDefinition: FieldsDefinition = {}): SqlFragment {
+    const column = this.columnFor(this.field, fieldsDefinition);
+    const fieldDef = fieldsDefinition[this.field];
+    const language = searchLanguage(this.options.language ?? fieldDef?.language);
+    const vector = fieldDef?.type === 'tsvector' ? column : `to_tsvector(${language}, ${column})`;
+    const normalization = this.options.normalization !== undefined ? `, ${this.options.normalization}` : '';
+    return sql`ts_rank(${raw(vector)}, websearch_to_tsquery(${raw(language)}, ${this.query})${raw(normalization)})`;
+  }
+}
+
+// Rank rows against a search query, e.g. orderBy(tsRank('searchVector', term), 'desc')
+export function tsRank(field: string, query: string, options: TsRankOptions = {}): TsRankExpression {
+  return new TsRankExpression(field, query, options);
+}
@@ -0,0 +1,63 @@
+import { FieldsDefinition, SQLQuery, getColumnName } from '../types';
+import { ColumnReference } from './references';
+
+// A parameterized SQL fragment created with the sql`...` tag.
+// R is the value type it produces when selected as a computed column.
+export class SqlFragment<R = unknown> {
+  readonly __result?: R;
+
+  constructor(
+    readonly strings: readonly string[],
+    readonly values: readonly unknown[]
+  ) {}
+
+  // Render the fragment with its placeholders numbered from startIndex, so it can
+  // be embedded anywhere in a larger query
+  toSQL(startIndex: number = 1): SQLQuery {
+    const params: unknown[] = [];
+    let sql = this.strings[0] ?? '';
+
+    this.values.forEach((value, index) => {
+      if (value instanceof SqlFragment) {
+        const nested = value.toSQL(startIndex + params.length);
+        sql += nested.sql;
+        params.push(...nested.params);
+      } else if (value instanceof ColumnReference) {
+        sql += value.column;
+      } else {
+        params.push(value);
+        sql += `$${startIndex + params.length - 1}`;
+      }
+      sql += this.strings[index + 1] ?? '';
+    });
+
+    return { sql, params };
+  }
+}
+
+// Tagged template: interpolated values become bound parameters, while nested fragments,
+// raw() text and ref() columns are inlined, e.g. sql`lower(email) = ${email}`
+export function sql<R = unknown>(strings: TemplateStringsArray, ...values: unknown[]): SqlFragment<R> {
+  return new SqlFragment<R>([...strings], values);
+}
+
+// Trusted SQL text such as identifiers or keywords - never pass user input here
+export function raw<R = unknown>(text: string): SqlFragment<R> {
+  return new SqlFragment<R>([text], []);
+}
+
+// An expression over model fields, rendered once the builder's column mapping is known.
+// Usable in orderBy() and as a computed select column; R is the selected value type.
+export abstract class FieldExpression<R = unknown> {
+  readonly __result?: R;
+
+  abstract toSQL(fieldsDefinition: FieldsDefinition): SqlFragment;
+
+  // Column of a field; builders without field definitions accept any field name
+  protected columnFor(field: string, fieldsDefinition: FieldsDefinition): string {
+    if (Object.keys(fieldsDefinition).length > 0 && !(field in fieldsDefinition)) {
+      throw new Error(`Unknown field '${field}' in expression`);
+    }
+    return getColumnName(field, fieldsDefinition[field]);
+  }
+}
@@ -0,0 +1,157 @@
+import { FieldsDefinition, getColumnName } from '../types';
+import { deserializeFieldValue, getFieldCodec } from '../core/codecs';
+import { AggregateFunction, SumValue } from './aggregates';
+import { SqlFragment, raw, sql } from './sql';
+
+export type RankingFunction = 'row_number' | 'rank' | 'dense_rank';
+export type OffsetFunction = 'lag' | 'lead';
+export type WindowFunction = RankingFunction | OffsetFunction | AggregateFunction;
+
+export interface WindowOrder<P extends string> {
+  field: P;
+  direction?: 'asc' | 'desc';
+}
+
+// The OVER (...) clause: partition and order keys are model fields
+export interface WindowSpec<P extends string> {
+  partitionBy?: P[];
+  orderBy?: (P | WindowOrder<P>)[];
+}
+
+// A window function call selected as a computed column.
+// A is the field the function reads, P the fields used in the OVER clause.
+export class WindowExpression<
+  Fn extends WindowFunction = WindowFunction,
+  A extends string = string,
+  P extends string = string
+> {
+  constructor(
+    readonly fn: Fn,
+    readonly field: A | undefined,
+    readonly spec: WindowSpec<P> = {},
+    readonly args: unknown[] = []
+  ) {}
+
+  // Render the call and its OVER clause, resolving fields through the model's column mapping.
+  // Builders without field definitions accept any field name.
+  toSQL(fieldsDefinition: FieldsDefinition = {}): SqlFragment {
+    const validate = Object.keys(fieldsDefinition).length > 0;
+    const column = (field: string): string => {
+      if (validate && !(field in fieldsDefinition)) {
+        throw new Error(`Unknown field '${field}' in window expression`);
+      }
+      return getColumnName(field, fieldsDefinition[field]);
+    };
+
+    const fnName = this.fn.toUpperCase();
+    let call: SqlFragment;
+    if (this.fn === 'lag' || this.fn === 'lead') {
+      // Offset is a validated integer; the default value is bound as a parameter
+      const [offset, defaultValue] = this.args;
+      const head = raw(`${fnName}(${column(this.field as string)}, ${offset}`);
+      call = defaultValue === undefined ? sql`${head})` : sql`${head}, ${defaultValue})`;
+    } else if (this.field) {
+      call = raw(`${fnName}(${column(this.field)})`);
+    } else {
+      call = raw(this.fn === 'count' ? 'COUNT(*)' : `${fnName}()`);
+    }
+
+    const clauses: string[] = [];
+    if (this.spec.partitionBy && this.spec.partitionBy.length > 0) {
+      clauses.push(`PARTITION BY ${this.spec.partitionBy.map(column).join(', ')}`);
+    }
+    if (this.spec.orderBy && this.spec.orderBy.length > 0) {
+      const orderParts = this.spec.orderBy.map(order => {
+        const { field, direction = 'asc' } = typeof order === 'string' ? { field: order } : order;
+        return `${column(field)} ${direction === 'desc' ? 'DESC' : 'ASC'}`;
+      });
+      clauses.push(`ORDER BY ${orderParts.join(', ')}`);
+    }
+
+    return sql`${call} OVER (${raw(clauses.join(' '))})`;
+  }
+
+  // node-postgres returns bigint rankings and counts, and numeric sums and averages, as strings
+  parseValue(value: unknown, fieldsDefinition: FieldsDefinition = {}): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (['row_number', 'rank', 'dense_rank', 'count'].includes(this.fn)) {
+      return parseInt(String(value));
+    }
+    if (this.fn === 'sum' && this.field && getFieldCodec(fieldsDefinition[this.field])) {
+      return deserializeFieldValue(value, fieldsDefinition[this.field]);
+    }
+    if ((this.fn === 'sum' || this.fn === 'avg') && typeof value === 'string') {
+      return Number(value);
+    }
+    // MIN, MAX, LAG and LEAD return a value of the field itself
+    if (this.field && ['min', 'max', 'lag', 'lead'].includes(this.fn)) {
+      return deserializeFieldValue(value, fieldsDefinition[this.field]);
+    }
+    return value;
+  }
+}
+
+// Result type of a window expression for entity type T
+export type WindowValue<T, E> = E extends WindowExpression<RankingFunction | 'count', any, any>
+  ? number
+  : E extends WindowExpression<'sum', infer A, any>
+  ? A extends keyof T
+    ? SumValue<T[A]>
+    : number | null
+  : E extends WindowExpression<'avg', any, any>
+  ? number | null
+  : E extends WindowExpression<'min' | 'max' | OffsetFunction, infer A, any>
+  ? A extends keyof T
+    ? T[A] | null
+    : unknown
+  : unknown;
+
+// Builds a ranking function; call .over() to get the selectable window expression
+export class RankingCall<Fn extends RankingFunction> {
+  constructor(readonly fn: Fn) {}
+
+  over<P extends string = never>(spec: WindowSpec<P> = {}): WindowExpression<Fn, never, P> {
+    return new WindowExpression<Fn, never, P>(this.fn, undefined, spec);
+  }
+}
+
+// Builds LAG / LEAD over a field; call .over() to get the selectable window expression
+export class OffsetCall<Fn extends OffsetFunction, A extends string> {
+  constructor(
+    readonly fn: Fn,
+    readonly field: A,
+    readonly offset: number,
+    readonly defaultValue?: unknown
+  ) {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`Invalid ${fn} offset '${offset}'`);
+    }
+  }
+
+  over<P extends string = never>(spec: WindowSpec<P> = {}): WindowExpression<Fn, A, P> {
+    return new WindowExpression<Fn, A, P>(this.fn, this.field, spec, [this.offset, this.defaultValue]);
+  }
+}
+
+// Window function helpers - aggregates become window functions with sum('amount').over(...)
+export function rowNumber(): RankingCall<'row_number'> {
+  return new RankingCall('row_number');
+}
+
+export function rank(): RankingCall<'rank'> {
+  return new RankingCall('rank');
+}
+
+export function denseRank(): RankingCall<'dense_rank'> {
+  return new RankingCall('dense_rank');
+}
+
+export function lag<A extends string>(field: A, offset: number = 1, defaultValue?: unknown): OffsetCall<'lag', A> {
+  return new OffsetCall('lag', field, offset, defaultValue);
+}
+
+export function lead<A extends string>(field: A, offset: number = 1, defaultValue?: unknown): OffsetCall<'lead', A> {
+  return new OffsetCall('lead', field, offset, defaultValue);
+}
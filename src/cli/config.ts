@@ -0,0 +1,90 @@
+import * as fs from "fs";
+import * as path from "path";
+import { PostgreSQLConfig } from "../adapters/postgres";
+import { ModelInstance } from "../core/model";
+
+export const CONFIG_FILES = ["querio.config.ts", "querio.config.js"];
+
+// Exported from querio.config.ts; every field is optional
+export interface QuerioConfig {
+  database?: PostgreSQLConfig; // Defaults to the DB_* environment variables
+  models?: ModelInstance[]; // Defaults to every model registered with defineModel()
+  migrationsDirectory?: string; // Defaults to './migrations'
+  seedsDirectory?: string; // Defaults to './seeds'
+  schema?: string; // Defaults to 'public'
+}
+
+// Identity helper that types a config file: export default defineConfig({ ... })
+export function defineConfig(config: QuerioConfig): QuerioConfig {
+  return config;
+}
+
+// Load the config file given with --config, or the first of CONFIG_FILES in cwd
+export function loadConfig(cwd: string, configPath?: string): QuerioConfig {
+  const file = configPath
+    ? path.resolve(cwd, configPath)
+    : CONFIG_FILES.map((name) => path.join(cwd, name)).find((candidate) =>
+        fs.existsSync(candidate)
+      );
+  if (!file) {
+    return {};
+  }
+  if (!fs.existsSync(file)) {
+    throw new Error(`Config file '${file}' not found`);
+  }
+
+  const loaded = require(file);
+  return (loaded.default ?? loaded) as QuerioConfig;
+}
+
+// Let require() load .ts config, migration and seed files through the project's ts-node
+export function registerTypeScript(cwd: string): void {
+  if (require.extensions[".ts"]) {
+    return; // Already running under ts-node
+  }
+  let tsNode: string;
+  try {
+    tsNode = require.resolve("ts-node", { paths: [cwd] });
+  } catch {
+    return; // Only .js files can be loaded
+  }
+  require(tsNode).register({ transpileOnly: true });
+}
+
+// Set variables from a .env file in cwd, keeping ones already in the environment
+export function loadEnvFile(cwd: string, env: NodeJS.ProcessEnv = process.env): void {
+  const file = path.join(cwd, ".env");
+  if (!fs.existsSync(file)) {
+    return;
+  }
+  for (const line of fs.readFileSync(file, "utf8").split(/\r?\n/)) {
+    const match = /^\s*([\w.]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match || line.trim().startsWith("#")) continue;
+    const key = match[1] as string;
+    if (env[key] === undefined) {
+      env[key] = (match[2] as string).replace(/^(['"])(.*)\1$/, "$2");
+    }
+  }
+}
+
+// Connection settings from the variables documented in .env.example
+export function databaseConfigFromEnv(env: NodeJS.ProcessEnv = process.env): PostgreSQLConfig {
+  if (!env.DB_NAME) {
+    throw new Error(
+      "No database configured. Set DB_NAME (and DB_HOST, DB_USER, ...) or export database from querio.config.ts"
+    );
+  }
+  return {
+    host: env.DB_HOST || "localhost",
+    port: parseInt(env.DB_PORT || "5432"),
+    database: env.DB_NAME,
+    user: env.DB_USER || "postgres",
+    password: env.DB_PASSWORD || "",
+    ssl: env.DB_SSL === "true",
+    ...(env.DB_MAX_CONNECTIONS && { max: parseInt(env.DB_MAX_CONNECTIONS) }),
+    ...(env.DB_IDLE_TIMEOUT && { idleTimeoutMillis: parseInt(env.DB_IDLE_TIMEOUT) }),
+    ...(env.DB_CONNECTION_TIMEOUT && {
+      connectionTimeoutMillis: parseInt(env.DB_CONNECTION_TIMEOUT),
+    }),
+  };
+}
@@ -0,0 +1,316 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { PostgreSQLAdapter } from "../adapters/postgres";
+import { introspectDatabase } from "../core/introspection";
+import { MigrationRunner, migrationFileName } from "../core/migrationRunner";
+import { generateModels } from "../core/modelGenerator";
+import {
+  getAllRegisteredModels,
+  getRegisteredModel,
+  RegisteredModel,
+} from "../core/modelRegistry";
+import {
+  generateAddForeignKeySQL,
+  generateCreateIndexSQL,
+  generateCreateTableSQL,
+  getForeignKeys,
+} from "../core/schema";
+import { QueryExecutor } from "../types";
+import {
+  databaseConfigFromEnv,
+  loadConfig,
+  loadEnvFile,
+  QuerioConfig,
+  registerTypeScript,
+} from "./config";
+
+interface CommandContext {
+  cwd: string;
+  args: string[]; // Positional arguments after the command name
+  options: Record<string, string>;
+  config: QuerioConfig;
+  connect(): PostgreSQLAdapter; // Opened on first use and closed after the command
+}
+
+interface Command {
+  usage: string;
+  description: string;
+  run(context: CommandContext): Promise<void>;
+}
+
+const MIGRATION_TEMPLATE = `import { Migration, QueryExecutor } from "querio";
+
+export async function up(migration: Migration, db: QueryExecutor): Promise<void> {
+}
+
+export async function down(migration: Migration, db: QueryExecutor): Promise<void> {
+}
+`;
+
+const COMMANDS: Record<string, Command> = {
+  "migrate:make": {
+    usage: "migrate:make <name>",
+    description: "Create a new migration file",
+    async run({ cwd, args, config }) {
+      if (!args[0]) {
+        throw new Error("Usage: querio migrate:make <name>");
+      }
+      const directory = migrationsDirectory(cwd, config);
+      const file = path.join(directory, migrationFileName(args[0]));
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(file, MIGRATION_TEMPLATE);
+      console.log(`✅ Created migration ${path.relative(cwd, file)}`);
+    },
+  },
+
+  "migrate:up": {
+    usage: "migrate:up [--dry-run] [--sql <file>]",
+    description: "Apply every pending migration",
+    async run(context) {
+      const runner = createRunner(context);
+      const applied = await runner.migrateUp();
+      if (applied.length === 0) {
+        console.log("Nothing to migrate");
+      }
+      printDryRunScript(context, runner);
+    },
+  },
+
+  "migrate:down": {
+    usage: "migrate:down [steps] [--dry-run] [--sql <file>]",
+    description: "Revert the last migration, or the last <steps> migrations",
+    async run(context) {
+      const steps = context.args[0] ? Number(context.args[0]) : 1;
+      const runner = createRunner(context);
+      const reverted = await runner.migrateDown(steps);
+      if (reverted.length === 0) {
+        console.log("Nothing to revert");
+      }
+      printDryRunScript(context, runner);
+    },
+  },
+
+  "migrate:status": {
+    usage: "migrate:status",
+    description: "List migrations and whether they are applied",
+    async run(context) {
+      const migrations = await createRunner(context).status();
+      if (migrations.length === 0) {
+        console.log("No migrations found");
+      }
+      for (const migration of migrations) {
+        const appliedAt = migration.appliedAt ? ` (${migration.appliedAt.toISOString()})` : "";
+        console.log(
+          `${migration.applied ? "applied" : "pending"}  ${migration.version}_${migration.name}${appliedAt}`
+        );
+      }
+    },
+  },
+
+  "schema:sql": {
+    usage: "schema:sql",
+    description: "Print the CREATE statements of every model",
+    async run({ config, options }) {
+      const schema = options.schema ?? config.schema;
+      const models = getModels(config);
+      const statements: string[] = [];
+      for (const model of models) {
+        statements.push(
+          generateCreateTableSQL(
+            model.table,
+            model.fields,
+            schema ? { schema } : {},
+            model.constraints
+          )
+        );
+        for (const index of model.indexes || []) {
+          statements.push(
+            generateCreateIndexSQL(model.table, model.fields, index, schema ? { schema } : {})
+          );
+        }
+      }
+      // Foreign keys last, as Migration.createTables adds them
+      const tables = new Set(models.map((model) => model.table));
+      const foreignKeyNames = new Set<string>();
+      for (const model of models) {
+        for (const foreignKey of getForeignKeys(model.table, model.fields, model.relations)) {
+          if (!tables.has(foreignKey.table) || foreignKeyNames.has(foreignKey.name)) continue;
+          foreignKeyNames.add(foreignKey.name);
+          statements.push(generateAddForeignKeySQL(foreignKey, schema));
+        }
+      }
+      console.log(statements.join("\n\n"));
+    },
+  },
+
+  "db:introspect": {
+    usage: "db:introspect",
+    description: "Print the tables, constraints, indexes and enums of the database as JSON",
+    async run({ config, options, connect }) {
+      const schema = options.schema ?? config.schema;
+      const database = await introspectDatabase(connect(), schema ? { schema } : {});
+      console.log(JSON.stringify(database, null, 2));
+    },
+  },
+
+  "models:generate": {
+    usage: "models:generate [--out <dir>]",
+    description: "Write a defineModel() file for every table of the database",
+    async run({ cwd, config, options, connect }) {
+      const directory = path.resolve(cwd, options.out || "models");
+      const schema = options.schema ?? config.schema;
+      const files = await generateModels(connect(), schema ? { schema } : {});
+      fs.mkdirSync(directory, { recursive: true });
+      for (const file of files) {
+        const target = path.join(directory, file.fileName);
+        if (fs.existsSync(target)) {
+          console.log(`⚠️ Skipped ${path.relative(cwd, target)}: file exists`);
+          continue;
+        }
+        fs.writeFileSync(target, file.source);
+        console.log(`✅ Created ${path.relative(cwd, target)}`);
+      }
+    },
+  },
+
+  "seed:run": {
+    usage: "seed:run",
+    description: "Run every seed file in the seeds directory, in file name order",
+    async run({ cwd, config, connect }) {
+      const directory = path.resolve(cwd, config.seedsDirectory || "seeds");
+      const files = fs.existsSync(directory)
+        ? fs
+            .readdirSync(directory)
+            .filter((file) => /\.(ts|js)$/.test(file) && !file.endsWith(".d.ts"))
+            .sort()
+        : [];
+      if (files.length === 0) {
+        console.log(`No seed files found in ${path.relative(cwd, directory) || "."}`);
+        return;
+      }
+      for (const file of files) {
+        const module = require(path.join(directory, file));
+        const seed: ((executor: QueryExecutor) => Promise<void>) | undefined =
+          module.seed ?? module.default;
+        if (typeof seed !== "function") {
+          throw new Error(`Seed '${file}' must export a seed() function`);
+        }
+        await seed(connect());
+        console.log(`🌱 Ran seed ${file}`);
+      }
+    },
+  },
+};
+
+function migrationsDirectory(cwd: string, config: QuerioConfig): string {
+  return path.resolve(cwd, config.migrationsDirectory || "migrations");
+}
+
+// --dry-run collects the statements instead of running them; --sql <file> writes them to a file
+function createRunner(context: CommandContext): MigrationRunner {
+  const { options } = context;
+  return new MigrationRunner(context.connect(), {
+    directory: migrationsDirectory(context.cwd, context.config),
+    dryRun: options["dry-run"] === "true" || options.sql !== undefined,
+    ...(options.sql && { outputFile: path.resolve(context.cwd, options.sql) }),
+  });
+}
+
+// Print the script of a dry run that was not written to a file
+function printDryRunScript({ options }: CommandContext, runner: MigrationRunner): void {
+  if (options["dry-run"] === "true" && options.sql === undefined) {
+    console.log(`\n${runner.getScript()}`);
+  }
+}
+
+// The config's models, or every model registered while loading it
+function getModels(config: QuerioConfig): RegisteredModel[] {
+  if (!config.models) {
+    return [...getAllRegisteredModels().values()];
+  }
+  return config.models.map((model) => {
+    const registered = getRegisteredModel(model.name);
+    if (!registered) {
+      throw new Error(`Model '${model.name}' is not registered`);
+    }
+    return registered;
+  });
+}
+
+// Options that take no value; they are set to 'true'
+const FLAGS = new Set(["dry-run"]);
+
+// Split argv into positional arguments and --name value / --name=value options
+export function parseArgs(argv: string[]): { args: string[]; options: Record<string, string> } {
+  const args: string[] = [];
+  const options: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] as string;
+    const option = /^--([\w-]+)(?:=(.*))?$/.exec(arg);
+    if (!option) {
+      args.push(arg);
+    } else if (option[2] !== undefined) {
+      options[option[1] as string] = option[2];
+    } else if (FLAGS.has(option[1] as string)) {
+      options[option[1] as string] = "true";
+    } else {
+      options[option[1] as string] = argv[++i] ?? "";
+    }
+  }
+  return { args, options };
+}
+
+function printHelp(): void {
+  const width = Math.max(...Object.values(COMMANDS).map((command) => command.usage.length));
+  console.log("Usage: querio <command> [--config <file>] [--schema <name>]\n\nCommands:");
+  for (const command of Object.values(COMMANDS)) {
+    console.log(`  ${command.usage.padEnd(width)}  ${command.description}`);
+  }
+}
+
+export async function main(argv: string[], cwd: string = process.cwd()): Promise<number> {
+  const { args, options } = parseArgs(argv);
+  const [name, ...commandArgs] = args;
+  const command = name ? COMMANDS[name] : undefined;
+  if (!command) {
+    if (name && name !== "help") {
+      console.error(`❌ Unknown command '${name}'\n`);
+    }
+    printHelp();
+    return name && name !== "help" ? 1 : 0;
+  }
+
+  let adapter: PostgreSQLAdapter | undefined;
+  try {
+    loadEnvFile(cwd);
+    registerTypeScript(cwd);
+    const config = loadConfig(cwd, options.config);
+    await command.run({
+      cwd,
+      args: commandArgs,
+      options,
+      config,
+      connect: () => {
+        if (!adapter) {
+          adapter = new PostgreSQLAdapter(config.database ?? databaseConfigFromEnv());
+        }
+        return adapter;
+      },
+    });
+    return 0;
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  } finally {
+    if (adapter) {
+      await adapter.close();
+    }
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((exitCode) => {
+    process.exitCode = exitCode;
+  });
+}
@@ -0,0 +1,95 @@
+import { FieldCodec, FieldDefinition, FieldType } from '../types';
+
+// NUMERIC as a JavaScript number (may lose precision beyond 15 significant digits)
+export const decimalAsNumber: FieldCodec<number, string> = {
+  serialize: value => String(value),
+  deserialize: value => Number(value)
+};
+
+// NUMERIC as the exact string returned by node-postgres
+export const decimalAsString: FieldCodec<string, string> = {
+  serialize: value => String(value),
+  deserialize: value => String(value)
+};
+
+// NUMERIC as an arbitrary-precision class such as Decimal from decimal.js
+export function decimalAs<D extends { toString(): string }>(DecimalClass: new (value: string) => D): FieldCodec<D, string> {
+  return {
+    serialize: value => value.toString(),
+    deserialize: value => new DecimalClass(String(value))
+  };
+}
+
+// BIGINT as a native bigint; node-postgres returns INT8 as a string to avoid overflow
+export const bigintCodec: FieldCodec<bigint, string> = {
+  serialize: value => value.toString(),
+  deserialize: value => BigInt(value)
+};
+
+// DATE as a 'YYYY-MM-DD' string instead of a Date at local midnight
+export const dateOnly: FieldCodec<string, string | Date> = {
+  serialize: value => value,
+  deserialize: value => {
+    if (!(value instanceof Date)) return String(value);
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+};
+
+// INTERVAL as PostgreSQL text; node-postgres returns an interval object with toPostgres()
+export const intervalAsString: FieldCodec<string, unknown> = {
+  serialize: value => value,
+  deserialize: value => {
+    if (value && typeof value === 'object' && typeof (value as any).toPostgres === 'function') {
+      return (value as any).toPostgres();
+    }
+    return String(value);
+  }
+};
+
+// Codecs applied when a field does not declare its own, matching InferFieldType
+const DEFAULT_CODECS: Partial<Record<FieldType, FieldCodec>> = {
+  decimal: decimalAsNumber,
+  bigint: bigintCodec,
+  interval: intervalAsString
+};
+
+// Attach a codec to a field, e.g. withCodec(decimal(), decimalAsString)
+export function withCodec<F extends FieldDefinition, V>(field: F, codec: FieldCodec<V, any>): F & { codec: FieldCodec<V, any> } {
+  return { ...field, codec };
+}
+
+export function getFieldCodec(fieldDef?: FieldDefinition): FieldCodec | undefined {
+  if (!fieldDef) return undefined;
+  if (fieldDef.codec) return fieldDef.codec;
+  if (fieldDef.type === 'array') return arrayCodec(getFieldCodec(fieldDef.elementType));
+  return DEFAULT_CODECS[fieldDef.type];
+}
+
+// Applies an element codec to each element of an array; null elements pass through
+function arrayCodec(elementCodec?: FieldCodec): FieldCodec<unknown[], unknown[]> | undefined {
+  if (!elementCodec) return undefined;
+  const mapElements = (values: unknown[], convert?: (value: any) => unknown) => {
+    if (!convert || !Array.isArray(values)) return values;
+    return values.map(value => value === null || value === undefined ? value : convert(value));
+  };
+  return {
+    serialize: values => mapElements(values, elementCodec.serialize),
+    deserialize: values => mapElements(values, elementCodec.deserialize)
+  };
+}
+
+// Entity value -> driver value; null and undefined pass through
+export function serializeFieldValue(value: unknown, fieldDef?: FieldDefinition): unknown {
+  const codec = getFieldCodec(fieldDef);
+  if (!codec?.serialize || value === null || value === undefined) return value;
+  return codec.serialize(value);
+}
+
+// Driver value -> entity value; null and undefined pass through
+export function deserializeFieldValue(value: unknown, fieldDef?: FieldDefinition): unknown {
+  const codec = getFieldCodec(fieldDef);
+  if (!codec?.deserialize || value === null || value === undefined) return value;
+  return codec.deserialize(value);
+}
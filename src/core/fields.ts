@@ -1,23 +1,51 @@
-import { FieldDefinition, UniqueConstraint, CustomConstraint, TableConstraints } from '../types';
+import { FieldDefinition, UniqueConstraint, CustomConstraint, TableConstraints, IndexDefinition } from '../types';
 
 // Specific field definition types for better inference
-type TextFieldDef = { type: 'text'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique'>>;
-type UuidFieldDef = { type: 'uuid'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique'>>;
-type IntegerFieldDef = { type: 'integer'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique'>>;
-type BooleanFieldDef = { type: 'boolean'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique'>>;
-type TimestampFieldDef = { type: 'timestamp'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique'>>;
-type DecimalFieldDef = { type: 'decimal'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique'>>;
-type JsonFieldDef = { type: 'json'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique'>>;
-
-type NullableTextFieldDef = { type: 'text'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique'>>;
-type NullableUuidFieldDef = { type: 'uuid'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique'>>;
-type NullableIntegerFieldDef = { type: 'integer'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique'>>;
-type NullableBooleanFieldDef = { type: 'boolean'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique'>>;
-type NullableTimestampFieldDef = { type: 'timestamp'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique'>>;
-type NullableDecimalFieldDef = { type: 'decimal'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique'>>;
-type NullableJsonFieldDef = { type: 'json'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique'>>;
-
-export function text(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique'>> = {}): TextFieldDef {
+type TextFieldDef = { type: 'text'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references'>>;
+type UuidFieldDef = { type: 'uuid'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique' | 'validate' | 'references'>>;
+type IntegerFieldDef = { type: 'integer'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique' | 'min' | 'max' | 'validate' | 'references'>>;
+type BooleanFieldDef = { type: 'boolean'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type TimestampFieldDef = { type: 'timestamp'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'withTimezone' | 'validate'>>;
+type DecimalFieldDef = { type: 'decimal'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'precision' | 'scale' | 'min' | 'max' | 'validate'>>;
+type VarcharFieldDef = { type: 'varchar'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique' | 'length' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references'>>;
+type CharFieldDef = { type: 'char'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique' | 'length' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references'>>;
+type SmallintFieldDef = { type: 'smallint'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique' | 'min' | 'max' | 'validate' | 'references'>>;
+type BigintFieldDef = { type: 'bigint'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique' | 'min' | 'max' | 'validate' | 'references'>>;
+type RealFieldDef = { type: 'real'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'min' | 'max' | 'validate'>>;
+type DoubleFieldDef = { type: 'double'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'min' | 'max' | 'validate'>>;
+type DateFieldDef = { type: 'date'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type TimeFieldDef = { type: 'time'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'withTimezone' | 'validate'>>;
+type IntervalFieldDef = { type: 'interval'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type ByteaFieldDef = { type: 'bytea'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type InetFieldDef = { type: 'inet'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type CidrFieldDef = { type: 'cidr'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type JsonFieldDef = { type: 'json'; nullable: false } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type TsvectorFieldDef = { type: 'tsvector'; nullable: false } & Partial<Pick<FieldDefinition, 'generatedFrom' | 'language' | 'weights'>>;
+type ArrayFieldDef<E extends FieldDefinition> = { type: 'array'; nullable: false; elementType: E } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+
+type NullableTextFieldDef = { type: 'text'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references'>>;
+type NullableUuidFieldDef = { type: 'uuid'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique' | 'validate' | 'references'>>;
+type NullableIntegerFieldDef = { type: 'integer'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique' | 'min' | 'max' | 'validate' | 'references'>>;
+type NullableBooleanFieldDef = { type: 'boolean'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type NullableTimestampFieldDef = { type: 'timestamp'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'withTimezone' | 'validate'>>;
+type NullableDecimalFieldDef = { type: 'decimal'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'precision' | 'scale' | 'min' | 'max' | 'validate'>>;
+type NullableVarcharFieldDef = { type: 'varchar'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'length' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references'>>;
+type NullableCharFieldDef = { type: 'char'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'length' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references'>>;
+type NullableSmallintFieldDef = { type: 'smallint'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'min' | 'max' | 'validate' | 'references'>>;
+type NullableBigintFieldDef = { type: 'bigint'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'min' | 'max' | 'validate' | 'references'>>;
+type NullableRealFieldDef = { type: 'real'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'min' | 'max' | 'validate'>>;
+type NullableDoubleFieldDef = { type: 'double'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'min' | 'max' | 'validate'>>;
+type NullableDateFieldDef = { type: 'date'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type NullableTimeFieldDef = { type: 'time'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'withTimezone' | 'validate'>>;
+type NullableIntervalFieldDef = { type: 'interval'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type NullableByteaFieldDef = { type: 'bytea'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type NullableInetFieldDef = { type: 'inet'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type NullableCidrFieldDef = { type: 'cidr'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type NullableJsonFieldDef = { type: 'json'; nullable: true } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+type NullableTsvectorFieldDef = { type: 'tsvector'; nullable: true } & Partial<Pick<FieldDefinition, 'generatedFrom' | 'language' | 'weights'>>;
+type NullableArrayFieldDef<E extends FieldDefinition> = { type: 'array'; nullable: true; elementType: E } & Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate'>>;
+
+export function text(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references' | 'column'>> = {}): TextFieldDef {
   return {
     type: 'text',
     nullable: false,
@@ -25,7 +53,7 @@ export function text(options: Partial<Pick<FieldDefinition, 'nullable' | 'defaul
   } as TextFieldDef;
 }
 
-export function uuid(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'primaryKey' | 'unique'>> = {}): UuidFieldDef {
+export function uuid(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'primaryKey' | 'unique' | 'validate' | 'references' | 'column'>> = {}): UuidFieldDef {
   return {
     type: 'uuid',
     nullable: false,
@@ -33,7 +61,7 @@ export function uuid(options: Partial<Pick<FieldDefinition, 'nullable' | 'defaul
   } as UuidFieldDef;
 }
 
-export function integer(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'primaryKey' | 'unique'>> = {}): IntegerFieldDef {
+export function integer(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'primaryKey' | 'unique' | 'min' | 'max' | 'validate' | 'references' | 'column'>> = {}): IntegerFieldDef {
   return {
     type: 'integer',
     nullable: false,
@@ -41,7 +69,7 @@ export function integer(options: Partial<Pick<FieldDefinition, 'nullable' | 'def
   } as IntegerFieldDef;
 }
 
-export function boolean(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique'>> = {}): BooleanFieldDef {
+export function boolean(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'validate' | 'column'>> = {}): BooleanFieldDef {
   return {
     type: 'boolean',
     nullable: false,
@@ -49,7 +77,8 @@ export function boolean(options: Partial<Pick<FieldDefinition, 'nullable' | 'def
   } as BooleanFieldDef;
 }
 
-export function timestamp(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique'>> = {}): TimestampFieldDef {
+// TIMESTAMP WITH TIME ZONE, or TIMESTAMP with { withTimezone: false }
+export function timestamp(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'withTimezone' | 'validate' | 'column'>> = {}): TimestampFieldDef {
   return {
     type: 'timestamp',
     nullable: false,
@@ -57,7 +86,8 @@ export function timestamp(options: Partial<Pick<FieldDefinition, 'nullable' | 'd
   } as TimestampFieldDef;
 }
 
-export function decimal(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique'>> = {}): DecimalFieldDef {
+// DECIMAL, or DECIMAL(precision, scale)
+export function decimal(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'precision' | 'scale' | 'min' | 'max' | 'validate' | 'column'>> = {}): DecimalFieldDef {
   return {
     type: 'decimal',
     nullable: false,
@@ -65,7 +95,7 @@ export function decimal(options: Partial<Pick<FieldDefinition, 'nullable' | 'def
   } as DecimalFieldDef;
 }
 
-export function json(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique'>> = {}): JsonFieldDef {
+export function json(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'validate' | 'column'>> = {}): JsonFieldDef {
   return {
     type: 'json',
     nullable: false,
@@ -73,10 +103,154 @@ export function json(options: Partial<Pick<FieldDefinition, 'nullable' | 'defaul
   } as JsonFieldDef;
 }
 
+// VARCHAR, or VARCHAR(length)
+export function varchar(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'primaryKey' | 'unique' | 'length' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references' | 'column'>> = {}): VarcharFieldDef {
+  return {
+    type: 'varchar',
+    nullable: false,
+    ...options
+  } as VarcharFieldDef;
+}
+
+// Fixed-length CHAR(length), CHAR(1) by default
+export function char(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'primaryKey' | 'unique' | 'length' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references' | 'column'>> = {}): CharFieldDef {
+  return {
+    type: 'char',
+    nullable: false,
+    ...options
+  } as CharFieldDef;
+}
+
+export function smallint(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'primaryKey' | 'unique' | 'min' | 'max' | 'validate' | 'references' | 'column'>> = {}): SmallintFieldDef {
+  return {
+    type: 'smallint',
+    nullable: false,
+    ...options
+  } as SmallintFieldDef;
+}
+
+export function bigint(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'primaryKey' | 'unique' | 'min' | 'max' | 'validate' | 'references' | 'column'>> = {}): BigintFieldDef {
+  return {
+    type: 'bigint',
+    nullable: false,
+    ...options
+  } as BigintFieldDef;
+}
+
+export function real(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'min' | 'max' | 'validate' | 'column'>> = {}): RealFieldDef {
+  return {
+    type: 'real',
+    nullable: false,
+    ...options
+  } as RealFieldDef;
+}
+
+// DOUBLE PRECISION
+export function double(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'min' | 'max' | 'validate' | 'column'>> = {}): DoubleFieldDef {
+  return {
+    type: 'double',
+    nullable: false,
+    ...options
+  } as DoubleFieldDef;
+}
+
+export function date(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'validate' | 'column'>> = {}): DateFieldDef {
+  return {
+    type: 'date',
+    nullable: false,
+    ...options
+  } as DateFieldDef;
+}
+
+// TIME, or TIME WITH TIME ZONE with { withTimezone: true }
+export function time(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'withTimezone' | 'validate' | 'column'>> = {}): TimeFieldDef {
+  return {
+    type: 'time',
+    nullable: false,
+    ...options
+  } as TimeFieldDef;
+}
+
+export function interval(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'validate' | 'column'>> = {}): IntervalFieldDef {
+  return {
+    type: 'interval',
+    nullable: false,
+    ...options
+  } as IntervalFieldDef;
+}
+
+export function bytea(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'validate' | 'column'>> = {}): ByteaFieldDef {
+  return {
+    type: 'bytea',
+    nullable: false,
+    ...options
+  } as ByteaFieldDef;
+}
+
+export function inet(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'validate' | 'column'>> = {}): InetFieldDef {
+  return {
+    type: 'inet',
+    nullable: false,
+    ...options
+  } as InetFieldDef;
+}
+
+export function cidr(options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'validate' | 'column'>> = {}): CidrFieldDef {
+  return {
+    type: 'cidr',
+    nullable: false,
+    ...options
+  } as CidrFieldDef;
+}
+
+// Full-text search vector, optionally generated from other text fields,
+// e.g. tsvector({ generatedFrom: ['title', 'body'], weights: { title: 'A' } })
+export function tsvector(options: Partial<Pick<FieldDefinition, 'nullable' | 'generatedFrom' | 'language' | 'weights' | 'column'>> = {}): TsvectorFieldDef {
+  return {
+    type: 'tsvector',
+    nullable: false,
+    ...options
+  } as TsvectorFieldDef;
+}
+
+// Array of another field type, e.g. array(text()) for TEXT[]
+export function array<E extends FieldDefinition>(
+  elementType: E,
+  options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'validate' | 'column'>> = {}
+): ArrayFieldDef<E> {
+  if (elementType.type === 'array' || elementType.type === 'enum') {
+    throw new Error(`Array fields do not support '${elementType.type}' elements`);
+  }
+  return {
+    type: 'array',
+    nullable: false,
+    elementType,
+    ...options
+  } as ArrayFieldDef<E>;
+}
+
+// A named enum type shared by fields of several models, e.g. enumField(orderStatus)
+export class EnumType<T extends string = string> {
+  constructor(readonly name: string, readonly values: readonly T[]) {}
+}
+
+export function enumType<T extends string>(name: string, values: readonly T[]): EnumType<T> {
+  return new EnumType(name, values);
+}
+
 export function enumField<T extends string>(
-  enumValues: readonly T[], 
-  options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'enumName'>> = {}
+  enumValues: readonly T[] | EnumType<T>, 
+  options: Partial<Pick<FieldDefinition, 'nullable' | 'default' | 'unique' | 'enumName' | 'validate' | 'column'>> = {}
 ): FieldDefinition {
+  if (enumValues instanceof EnumType) {
+    return {
+      type: 'enum',
+      nullable: false,
+      enumValues: [...enumValues.values],
+      enumName: enumValues.name,
+      ...options
+    };
+  }
   return {
     type: 'enum',
     nullable: false,
@@ -87,51 +261,137 @@ export function enumField<T extends string>(
 
 // Shorthand for nullable fields
 export const nullable = {
-  text: (options: Partial<Pick<FieldDefinition, 'default' | 'unique'>> = {}): NullableTextFieldDef => ({
+  text: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references' | 'column'>> = {}): NullableTextFieldDef => ({
     type: 'text',
     nullable: true,
     ...options
   } as NullableTextFieldDef),
   
-  uuid: (options: Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique'>> = {}): NullableUuidFieldDef => ({
+  uuid: (options: Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique' | 'validate' | 'references' | 'column'>> = {}): NullableUuidFieldDef => ({
     type: 'uuid',
     nullable: true,
     ...options
   } as NullableUuidFieldDef),
   
-  integer: (options: Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique'>> = {}): NullableIntegerFieldDef => ({
+  integer: (options: Partial<Pick<FieldDefinition, 'default' | 'primaryKey' | 'unique' | 'min' | 'max' | 'validate' | 'references' | 'column'>> = {}): NullableIntegerFieldDef => ({
     type: 'integer',
     nullable: true,
     ...options
   } as NullableIntegerFieldDef),
   
-  boolean: (options: Partial<Pick<FieldDefinition, 'default' | 'unique'>> = {}): NullableBooleanFieldDef => ({
+  boolean: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate' | 'column'>> = {}): NullableBooleanFieldDef => ({
     type: 'boolean',
     nullable: true,
     ...options
   } as NullableBooleanFieldDef),
   
-  timestamp: (options: Partial<Pick<FieldDefinition, 'default' | 'unique'>> = {}): NullableTimestampFieldDef => ({
+  timestamp: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'withTimezone' | 'validate' | 'column'>> = {}): NullableTimestampFieldDef => ({
     type: 'timestamp',
     nullable: true,
     ...options
   } as NullableTimestampFieldDef),
   
-  decimal: (options: Partial<Pick<FieldDefinition, 'default' | 'unique'>> = {}): NullableDecimalFieldDef => ({
+  decimal: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'precision' | 'scale' | 'min' | 'max' | 'validate' | 'column'>> = {}): NullableDecimalFieldDef => ({
     type: 'decimal',
     nullable: true,
     ...options
   } as NullableDecimalFieldDef),
   
-  json: (options: Partial<Pick<FieldDefinition, 'default' | 'unique'>> = {}): NullableJsonFieldDef => ({
+  json: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate' | 'column'>> = {}): NullableJsonFieldDef => ({
     type: 'json',
     nullable: true,
     ...options
   } as NullableJsonFieldDef),
   
+  varchar: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'length' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references' | 'column'>> = {}): NullableVarcharFieldDef => ({
+    type: 'varchar',
+    nullable: true,
+    ...options
+  } as NullableVarcharFieldDef),
+  
+  char: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'length' | 'minLength' | 'maxLength' | 'pattern' | 'email' | 'validate' | 'references' | 'column'>> = {}): NullableCharFieldDef => ({
+    type: 'char',
+    nullable: true,
+    ...options
+  } as NullableCharFieldDef),
+  
+  smallint: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'min' | 'max' | 'validate' | 'references' | 'column'>> = {}): NullableSmallintFieldDef => ({
+    type: 'smallint',
+    nullable: true,
+    ...options
+  } as NullableSmallintFieldDef),
+  
+  bigint: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'min' | 'max' | 'validate' | 'references' | 'column'>> = {}): NullableBigintFieldDef => ({
+    type: 'bigint',
+    nullable: true,
+    ...options
+  } as NullableBigintFieldDef),
+  
+  real: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'min' | 'max' | 'validate' | 'column'>> = {}): NullableRealFieldDef => ({
+    type: 'real',
+    nullable: true,
+    ...options
+  } as NullableRealFieldDef),
+  
+  double: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'min' | 'max' | 'validate' | 'column'>> = {}): NullableDoubleFieldDef => ({
+    type: 'double',
+    nullable: true,
+    ...options
+  } as NullableDoubleFieldDef),
+  
+  date: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate' | 'column'>> = {}): NullableDateFieldDef => ({
+    type: 'date',
+    nullable: true,
+    ...options
+  } as NullableDateFieldDef),
+  
+  time: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'withTimezone' | 'validate' | 'column'>> = {}): NullableTimeFieldDef => ({
+    type: 'time',
+    nullable: true,
+    ...options
+  } as NullableTimeFieldDef),
+  
+  interval: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate' | 'column'>> = {}): NullableIntervalFieldDef => ({
+    type: 'interval',
+    nullable: true,
+    ...options
+  } as NullableIntervalFieldDef),
+  
+  bytea: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate' | 'column'>> = {}): NullableByteaFieldDef => ({
+    type: 'bytea',
+    nullable: true,
+    ...options
+  } as NullableByteaFieldDef),
+  
+  inet: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate' | 'column'>> = {}): NullableInetFieldDef => ({
+    type: 'inet',
+    nullable: true,
+    ...options
+  } as NullableInetFieldDef),
+  
+  cidr: (options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate' | 'column'>> = {}): NullableCidrFieldDef => ({
+    type: 'cidr',
+    nullable: true,
+    ...options
+  } as NullableCidrFieldDef),
+  
+  tsvector: (options: Partial<Pick<FieldDefinition, 'generatedFrom' | 'language' | 'weights' | 'column'>> = {}): NullableTsvectorFieldDef => ({
+    type: 'tsvector',
+    nullable: true,
+    ...options
+  } as NullableTsvectorFieldDef),
+  
+  array: <E extends FieldDefinition>(
+    elementType: E,
+    options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'validate' | 'column'>> = {}
+  ): NullableArrayFieldDef<E> => ({
+    ...array(elementType, options),
+    nullable: true
+  } as NullableArrayFieldDef<E>),
+  
   enumField: <T extends string>(
-    enumValues: readonly T[], 
-    options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'enumName'>> = {}
+    enumValues: readonly T[] | EnumType<T>, 
+    options: Partial<Pick<FieldDefinition, 'default' | 'unique' | 'enumName' | 'validate' | 'column'>> = {}
   ) => enumField(enumValues, { ...options, nullable: true })
 };
 
@@ -150,6 +410,27 @@ export function customConstraint(name: string, definition: string): CustomConstr
   };
 }
 
+// Index helpers, e.g. index(['accountId', 'createdAt']) or index(['tags'], { using: 'gin' })
+export function index(fields: string[], options: Omit<IndexDefinition, 'fields' | 'expression'> = {}): IndexDefinition {
+  return {
+    fields,
+    ...options
+  };
+}
+
+// Index over a SQL expression, e.g. expressionIndex('users_lower_email_idx', 'lower(email)', { unique: true })
+export function expressionIndex(
+  name: string,
+  expression: string,
+  options: Omit<IndexDefinition, 'name' | 'fields' | 'expression'> = {}
+): IndexDefinition {
+  return {
+    name,
+    expression,
+    ...options
+  };
+}
+
 // Helper to create table constraints
 export function createConstraints(options: {
   unique?: UniqueConstraint[];
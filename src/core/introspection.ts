@@ -0,0 +1,220 @@
+import { QueryExecutor, ReferentialAction } from "../types";
+
+export interface IntrospectionOptions {
+  schema?: string; // Defaults to 'public'
+}
+
+export interface IntrospectedColumn {
+  name: string;
+  dataType: string; // As rendered by format_type(), e.g. 'character varying(32)'
+  nullable: boolean;
+  default: string | null; // Default expression, e.g. 'now()' or '''active''::text'
+  generated: boolean; // GENERATED ALWAYS AS (...) STORED column
+}
+
+export type IntrospectedConstraintType = "primary" | "unique" | "foreign" | "check";
+
+export interface IntrospectedConstraint {
+  name: string;
+  type: IntrospectedConstraintType;
+  columns: string[];
+  definition: string; // pg_get_constraintdef(), e.g. 'UNIQUE (email)'
+  referencedTable?: string; // Foreign keys only
+  referencedColumns?: string[];
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+export interface IntrospectedIndex {
+  name: string;
+  columns: string[]; // Empty for pure expression indexes
+  unique: boolean;
+  primary: boolean;
+  method: string; // btree, gin, ...
+  predicate: string | null; // WHERE clause of a partial index
+  definition: string; // pg_get_indexdef()
+  constraint: boolean; // Backs a primary key, unique or exclusion constraint
+}
+
+export interface IntrospectedTable {
+  name: string;
+  columns: IntrospectedColumn[];
+  constraints: IntrospectedConstraint[];
+  indexes: IntrospectedIndex[];
+}
+
+export interface DatabaseSchema {
+  tables: Record<string, IntrospectedTable>;
+  enums: Record<string, string[]>; // Enum type name -> values in sort order
+}
+
+const CONSTRAINT_TYPES: Record<string, IntrospectedConstraintType> = {
+  p: "primary",
+  u: "unique",
+  f: "foreign",
+  c: "check",
+};
+
+// pg_constraint.confdeltype / confupdtype codes; 'a' (no action) is the default
+const REFERENTIAL_ACTIONS: Record<string, ReferentialAction> = {
+  c: "cascade",
+  r: "restrict",
+  n: "setNull",
+  d: "setDefault",
+};
+
+// Read tables, columns, constraints, indexes and enum types of a schema from pg_catalog
+export async function introspectDatabase(
+  executor: QueryExecutor,
+  options: IntrospectionOptions = {}
+): Promise<DatabaseSchema> {
+  const schema = options.schema || "public";
+  const tables: Record<string, IntrospectedTable> = {};
+  const tableFor = (name: string): IntrospectedTable => {
+    if (!tables[name]) {
+      tables[name] = { name, columns: [], constraints: [], indexes: [] };
+    }
+    return tables[name];
+  };
+
+  const columns = await executor.execute<{
+    table_name: string;
+    column_name: string;
+    data_type: string;
+    is_nullable: boolean;
+    column_default: string | null;
+    is_generated: boolean;
+  }>({
+    sql: `SELECT c.relname AS table_name, a.attname AS column_name,
+        format_type(a.atttypid, a.atttypmod) AS data_type,
+        NOT a.attnotnull AS is_nullable,
+        pg_get_expr(d.adbin, d.adrelid) AS column_default,
+        a.attgenerated <> '' AS is_generated
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      WHERE n.nspname = $1 AND c.relkind IN ('r', 'p') AND a.attnum > 0 AND NOT a.attisdropped
+      ORDER BY c.relname, a.attnum`,
+    params: [schema],
+  });
+  for (const row of columns) {
+    tableFor(row.table_name).columns.push({
+      name: row.column_name,
+      dataType: row.data_type,
+      nullable: row.is_nullable,
+      default: row.column_default,
+      generated: row.is_generated,
+    });
+  }
+
+  const constraints = await executor.execute<{
+    table_name: string;
+    constraint_name: string;
+    constraint_type: string;
+    columns: string[];
+    definition: string;
+    referenced_table: string | null;
+    referenced_columns: string[] | null;
+    on_delete: string;
+    on_update: string;
+  }>({
+    sql: `SELECT c.relname AS table_name, con.conname AS constraint_name, con.contype AS constraint_type,
+        ARRAY(
+          SELECT a.attname FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        )::text[] AS columns,
+        pg_get_constraintdef(con.oid) AS definition,
+        rc.relname AS referenced_table,
+        CASE WHEN con.contype = 'f' THEN ARRAY(
+          SELECT a.attname FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        )::text[] END AS referenced_columns,
+        con.confdeltype AS on_delete, con.confupdtype AS on_update
+      FROM pg_constraint con
+      JOIN pg_class c ON c.oid = con.conrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_class rc ON rc.oid = con.confrelid
+      WHERE n.nspname = $1 AND con.contype IN ('p', 'u', 'f', 'c')
+      ORDER BY c.relname, con.conname`,
+    params: [schema],
+  });
+  for (const row of constraints) {
+    const onDelete = REFERENTIAL_ACTIONS[row.on_delete];
+    const onUpdate = REFERENTIAL_ACTIONS[row.on_update];
+    tableFor(row.table_name).constraints.push({
+      name: row.constraint_name,
+      type: CONSTRAINT_TYPES[row.constraint_type] as IntrospectedConstraintType,
+      columns: row.columns,
+      definition: row.definition,
+      ...(row.referenced_table && { referencedTable: row.referenced_table }),
+      ...(row.referenced_columns && { referencedColumns: row.referenced_columns }),
+      ...(onDelete && { onDelete }),
+      ...(onUpdate && { onUpdate }),
+    });
+  }
+
+  const indexes = await executor.execute<{
+    table_name: string;
+    index_name: string;
+    columns: string[];
+    is_unique: boolean;
+    is_primary: boolean;
+    method: string;
+    predicate: string | null;
+    definition: string;
+    is_constraint: boolean;
+  }>({
+    sql: `SELECT t.relname AS table_name, i.relname AS index_name,
+        ARRAY(
+          SELECT a.attname FROM unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = ix.indrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        )::text[] AS columns,
+        ix.indisunique AS is_unique, ix.indisprimary AS is_primary, am.amname AS method,
+        pg_get_expr(ix.indpred, ix.indrelid) AS predicate,
+        pg_get_indexdef(ix.indexrelid) AS definition,
+        EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = ix.indexrelid) AS is_constraint
+      FROM pg_index ix
+      JOIN pg_class i ON i.oid = ix.indexrelid
+      JOIN pg_class t ON t.oid = ix.indrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      JOIN pg_am am ON am.oid = i.relam
+      WHERE n.nspname = $1
+      ORDER BY t.relname, i.relname`,
+    params: [schema],
+  });
+  for (const row of indexes) {
+    tableFor(row.table_name).indexes.push({
+      name: row.index_name,
+      columns: row.columns,
+      unique: row.is_unique,
+      primary: row.is_primary,
+      method: row.method,
+      predicate: row.predicate,
+      definition: row.definition,
+      constraint: row.is_constraint,
+    });
+  }
+
+  const enumRows = await executor.execute<{ enum_name: string; value: string }>({
+    sql: `SELECT t.typname AS enum_name, e.enumlabel AS value
+      FROM pg_type t
+      JOIN pg_enum e ON e.enumtypid = t.oid
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE n.nspname = $1
+      ORDER BY t.typname, e.enumsortorder`,
+    params: [schema],
+  });
+  const enums: Record<string, string[]> = {};
+  for (const row of enumRows) {
+    if (!enums[row.enum_name]) {
+      enums[row.enum_name] = [];
+    }
+    enums[row.enum_name].push(row.value);
+  }
+
+  return { tables, enums };
+}
@@ -1,58 +1,305 @@
-import { generateCreateTableSQL } from "./schema";
-import { ModelConfiguration } from "./modelRegistry";
-import { QueryExecutor } from "../types";
+import * as fs from "fs";
+import {
+  AddEnumValueOptions,
+  ForeignKeyDefinition,
+  formatDefaultValue,
+  generateAddEnumValueSQL,
+  generateCreateEnumSQL,
+  generateCreateIndexSQL,
+  generateCreateTableSQL,
+  generateDropEnumSQL,
+  generateForeignKeyDefinition,
+  generateRenameEnumValueSQL,
+  getEnumTypes,
+  getForeignKeys,
+  getIndexName,
+} from "./schema";
+import {
+  getAllRegisteredModels,
+  getRegisteredModelByTable,
+  ModelConfiguration,
+  resolveRegisteredModel,
+  separateFieldsAndRelations,
+} from "./modelRegistry";
+import { getColumnName, QueryExecutor, SQLQuery } from "../types";
 
 export interface MigrationOptions {
   dropIfExists?: boolean;
   schema?: string;
+  concurrentIndexes?: boolean; // Create indexes with CREATE INDEX CONCURRENTLY
 }
 
-export class Migration {
+export interface MigrationExecutionOptions {
+  dryRun?: boolean; // Collect statements into a script instead of executing them
+  logger?: MigrationLogger; // Defaults to ConsoleMigrationLogger
+}
+
+export type MigrationOperationType =
+  | "createTable"
+  | "createIndex"
+  | "addConstraint"
+  | "dropConstraint"
+  | "dropTable"
+  | "createType"
+  | "alterType"
+  | "dropType"
+  | "execute"; // Statements passed to execute(), e.g. from a migration file
+
+export interface MigrationOperation {
+  type: MigrationOperationType;
+  sql: string;
+  description: string;
+}
+
+export interface MigrationSummary {
+  statements: number;
+  operations: Partial<Record<MigrationOperationType, number>>;
+}
+
+export interface MigrationLogger {
+  info(message: string): void;
+  error(message: string, error?: unknown): void;
+}
+
+// Default logger, writing progress messages to the console
+export class ConsoleMigrationLogger implements MigrationLogger {
+  info(message: string): void {
+    console.log(message);
+  }
+
+  error(message: string, error?: unknown): void {
+    console.error(message, ...(error === undefined ? [] : [error]));
+  }
+}
+
+// Runs schema changes and records each statement. In dry-run mode nothing is executed:
+// the statements only make up the script, and execute() returns no rows.
+export class Migration implements QueryExecutor {
   private executor: QueryExecutor;
+  private readonly dryRun: boolean;
+  private readonly logger: MigrationLogger;
+  private readonly operations: MigrationOperation[] = [];
 
-  constructor(executor: QueryExecutor) {
+  constructor(executor: QueryExecutor, options: MigrationExecutionOptions = {}) {
     this.executor = executor;
+    this.dryRun = options.dryRun ?? false;
+    this.logger = options.logger ?? new ConsoleMigrationLogger();
+  }
+
+  // Raw SQL, run and recorded like the other operations; parameters are inlined in the script
+  async execute<T>(query: SQLQuery): Promise<T[]> {
+    const sql = inlineParams(query.sql, query.params);
+    this.operations.push({ type: "execute", sql, description: "Execute SQL" });
+    return this.dryRun ? [] : this.executor.execute<T>(query);
   }
 
+  async executeOne<T>(query: SQLQuery): Promise<T | null> {
+    const rows = await this.execute<T>(query);
+    return rows[0] ?? null;
+  }
+
+  // Every statement so far, in order
+  getOperations(): MigrationOperation[] {
+    return [...this.operations];
+  }
+
+  // The statements as a SQL script, each preceded by a comment describing it
+  getScript(): string {
+    return this.operations
+      .map((operation) => {
+        const sql = operation.sql.trim();
+        return `-- ${operation.description}\n${sql.endsWith(";") ? sql : `${sql};`}\n`;
+      })
+      .join("\n");
+  }
+
+  writeScript(filePath: string): void {
+    fs.writeFileSync(filePath, this.getScript());
+    this.logger.info(`📝 Wrote ${this.operations.length} statement(s) to ${filePath}`);
+  }
+
+  getSummary(): MigrationSummary {
+    const operations: Partial<Record<MigrationOperationType, number>> = {};
+    for (const operation of this.operations) {
+      operations[operation.type] = (operations[operation.type] ?? 0) + 1;
+    }
+    return { statements: this.operations.length, operations };
+  }
+
+  // Log the number of statements per operation type
+  reportSummary(): void {
+    const { statements, operations } = this.getSummary();
+    const counts = Object.entries(operations)
+      .map(([type, count]) => `${count} ${type}`)
+      .join(", ");
+    this.logger.info(
+      `📋 ${this.dryRun ? "Dry run: " : ""}${statements} statement(s)${counts ? ` (${counts})` : ""}`
+    );
+  }
+
+  // Create a table, then the foreign keys it owns; the referenced tables must exist
   async createTable(
     config: ModelConfiguration,
     options: MigrationOptions = {}
   ): Promise<void> {
-    const sql = generateCreateTableSQL(
-      config.table,
-      config.fields,
-      options,
-      config.constraints
+    await this.executeCreateTable(config, options);
+    const ownForeignKeys = getModelForeignKeys(config).filter(
+      (foreignKey) => foreignKey.table === config.table
     );
-
-    await this.executor.execute({ sql, params: [] });
-    console.log(`✅ Table '${config.table}' created successfully`);
+    await this.addForeignKeys(ownForeignKeys, options.schema);
   }
 
+  // Create tables in dependency order, each followed by the foreign keys to tables
+  // that exist by then. Keys that close a cycle are added once every table exists; a cycle
+  // of NOT NULL columns is rejected, since no row could ever be inserted into its tables.
   async createTables(
     models: Array<{ config: ModelConfiguration }>,
     options: MigrationOptions = {}
   ): Promise<void> {
-    console.log("🏗️ Creating tables...");
+    this.log("🏗️ Creating tables...");
 
-    for (const { config } of models) {
+    const configs = models.map(({ config }) => config);
+    const tables = new Set(configs.map((config) => config.table));
+    const foreignKeys = getBatchForeignKeys(configs);
+    const requiredCycle = findRequiredCycle(configs, foreignKeys);
+    if (requiredCycle) {
+      throw new Error(
+        `Foreign keys form a cycle of NOT NULL columns, so no row could ever be inserted: ${requiredCycle.join(" -> ")}. Make one of the columns nullable`
+      );
+    }
+    const created = new Set<string>();
+    const deferred: ForeignKeyDefinition[] = [];
+
+    for (const config of sortByDependencies(configs, foreignKeys)) {
       try {
-        await this.createTable(config, options);
+        await this.executeCreateTable(config, options);
       } catch (error) {
-        console.error(`❌ Failed to create table '${config.table}':`, error);
+        this.logger.error(`❌ Failed to create table '${config.table}':`, error);
         throw error;
       }
+      created.add(config.table);
+
+      const ready: ForeignKeyDefinition[] = [];
+      for (const foreignKey of foreignKeys) {
+        if (foreignKey.table !== config.table) continue;
+        const referenced = foreignKey.referencedTable;
+        (created.has(referenced) || !tables.has(referenced) ? ready : deferred).push(foreignKey);
+      }
+      await this.addForeignKeys(ready, options.schema);
+    }
+
+    if (deferred.length > 0) {
+      this.log(`🔁 Adding ${deferred.length} foreign key(s) of circular references`);
+      await this.addForeignKeys(deferred, options.schema);
+    }
+
+    this.log("✅ All tables created successfully");
+  }
+
+  // Drop tables dependents first, without CASCADE, so a table still referenced from
+  // outside the list fails the drop. Foreign keys that form a cycle are dropped beforehand,
+  // and enum types no other registered model uses are dropped afterwards.
+  async dropTables(
+    models: Array<{ config: ModelConfiguration }>,
+    options: MigrationOptions = {}
+  ): Promise<void> {
+    const configs = models.map(({ config }) => config);
+    const foreignKeys = getBatchForeignKeys(configs);
+    const ordered = sortByDependencies(configs, foreignKeys);
+    const position = new Map(ordered.map((config, index) => [config.table, index]));
+
+    for (const foreignKey of foreignKeys) {
+      const referencedPosition = position.get(foreignKey.referencedTable);
+      const ownerPosition = position.get(foreignKey.table) as number;
+      if (referencedPosition !== undefined && referencedPosition > ownerPosition) {
+        await this.dropConstraint(foreignKey.table, foreignKey.name, options.schema);
+      }
+    }
+
+    for (const config of [...ordered].reverse()) {
+      const fullTableName = options.schema ? `${options.schema}.${config.table}` : config.table;
+      await this.run(
+        "dropTable",
+        `DROP TABLE IF EXISTS ${fullTableName}`,
+        `Drop table '${fullTableName}'`,
+        `🗑️ Table '${fullTableName}' dropped`
+      );
     }
 
-    console.log("✅ All tables created successfully");
+    const droppedTables = new Set(configs.map((config) => config.table));
+    const usedEnums = new Set<string>();
+    for (const model of getAllRegisteredModels().values()) {
+      if (droppedTables.has(model.table)) continue;
+      getEnumTypes(model.table, model.actualFields).forEach((enumType) => usedEnums.add(enumType.name));
+    }
+    const droppedEnums = new Set<string>();
+    for (const config of configs) {
+      const { actualFields } = separateFieldsAndRelations(config.fields);
+      for (const enumType of getEnumTypes(config.table, actualFields)) {
+        if (usedEnums.has(enumType.name) || droppedEnums.has(enumType.name)) continue;
+        droppedEnums.add(enumType.name);
+        await this.dropEnum(enumType.name, options.schema);
+      }
+    }
+  }
+
+  private async executeCreateTable(
+    config: ModelConfiguration,
+    options: MigrationOptions
+  ): Promise<void> {
+    const sql = generateCreateTableSQL(
+      config.table,
+      config.fields,
+      options,
+      config.constraints
+    );
+
+    await this.run(
+      "createTable",
+      sql,
+      `Create table '${config.table}'`,
+      `✅ Table '${config.table}' created successfully`
+    );
+
+    for (const index of config.indexes || []) {
+      const indexSql = generateCreateIndexSQL(config.table, config.fields, index, {
+        ...(options.schema && { schema: options.schema }),
+        concurrently: options.concurrentIndexes ?? false,
+      });
+      const indexName = getIndexName(config.table, config.fields, index);
+      await this.run(
+        "createIndex",
+        indexSql,
+        `Create index '${indexName}' on '${config.table}'`,
+        `✅ Index '${indexName}' created on '${config.table}'`
+      );
+    }
+  }
+
+  private async addForeignKeys(
+    foreignKeys: ForeignKeyDefinition[],
+    schema?: string
+  ): Promise<void> {
+    for (const foreignKey of foreignKeys) {
+      await this.addConstraint(
+        foreignKey.table,
+        foreignKey.name,
+        generateForeignKeyDefinition(foreignKey, schema),
+        schema
+      );
+    }
   }
 
   async dropTable(tableName: string, schema?: string): Promise<void> {
     const fullTableName = schema ? `${schema}.${tableName}` : tableName;
     const sql = `DROP TABLE IF EXISTS ${fullTableName} CASCADE`;
 
-    await this.executor.execute({ sql, params: [] });
-    console.log(`🗑️ Table '${fullTableName}' dropped`);
+    await this.run(
+      "dropTable",
+      sql,
+      `Drop table '${fullTableName}'`,
+      `🗑️ Table '${fullTableName}' dropped`
+    );
   }
 
   async addConstraint(
@@ -64,8 +311,10 @@ export class Migration {
     const fullTableName = schema ? `${schema}.${tableName}` : tableName;
     const sql = `ALTER TABLE ${fullTableName} ADD CONSTRAINT ${constraintName} ${constraintDefinition}`;
 
-    await this.executor.execute({ sql, params: [] });
-    console.log(
+    await this.run(
+      "addConstraint",
+      sql,
+      `Add constraint '${constraintName}' to '${fullTableName}'`,
       `✅ Constraint '${constraintName}' added to '${fullTableName}'`
     );
   }
@@ -78,9 +327,211 @@ export class Migration {
     const fullTableName = schema ? `${schema}.${tableName}` : tableName;
     const sql = `ALTER TABLE ${fullTableName} DROP CONSTRAINT IF EXISTS ${constraintName}`;
 
-    await this.executor.execute({ sql, params: [] });
-    console.log(
+    await this.run(
+      "dropConstraint",
+      sql,
+      `Drop constraint '${constraintName}' from '${fullTableName}'`,
       `🗑️ Constraint '${constraintName}' dropped from '${fullTableName}'`
     );
   }
+
+  // Create an enum type unless it exists, e.g. one shared through enumType()
+  async createEnum(enumName: string, values: string[], schema?: string): Promise<void> {
+    const fullEnumName = schema ? `${schema}.${enumName}` : enumName;
+    await this.run(
+      "createType",
+      generateCreateEnumSQL(fullEnumName, values),
+      `Create enum type '${fullEnumName}'`,
+      `✅ Enum type '${fullEnumName}' created`
+    );
+  }
+
+  // The new value cannot be used until the transaction that adds it has committed,
+  // so data using it belongs in a later migration
+  async addEnumValue(
+    enumName: string,
+    value: string,
+    options: AddEnumValueOptions & { schema?: string } = {}
+  ): Promise<void> {
+    const { schema, ...position } = options;
+    const fullEnumName = schema ? `${schema}.${enumName}` : enumName;
+    await this.run(
+      "alterType",
+      generateAddEnumValueSQL(fullEnumName, value, position),
+      `Add value '${value}' to enum type '${fullEnumName}'`,
+      `✅ Value '${value}' added to enum type '${fullEnumName}'`
+    );
+  }
+
+  async renameEnumValue(
+    enumName: string,
+    from: string,
+    to: string,
+    schema?: string
+  ): Promise<void> {
+    const fullEnumName = schema ? `${schema}.${enumName}` : enumName;
+    await this.run(
+      "alterType",
+      generateRenameEnumValueSQL(fullEnumName, from, to),
+      `Rename value '${from}' of enum type '${fullEnumName}' to '${to}'`,
+      `✅ Value '${from}' of enum type '${fullEnumName}' renamed to '${to}'`
+    );
+  }
+
+  async dropEnum(enumName: string, schema?: string): Promise<void> {
+    const fullEnumName = schema ? `${schema}.${enumName}` : enumName;
+    await this.run(
+      "dropType",
+      generateDropEnumSQL(fullEnumName),
+      `Drop enum type '${fullEnumName}'`,
+      `🗑️ Enum type '${fullEnumName}' dropped`
+    );
+  }
+
+  // Record a statement and execute it unless this is a dry run
+  private async run(
+    type: MigrationOperationType,
+    sql: string,
+    description: string,
+    message: string
+  ): Promise<void> {
+    this.operations.push({ type, sql, description });
+    if (this.dryRun) {
+      return;
+    }
+    await this.executor.execute({ sql, params: [] });
+    this.log(message);
+  }
+
+  // Progress messages; a dry run only reports its summary
+  private log(message: string): void {
+    if (!this.dryRun) {
+      this.logger.info(message);
+    }
+  }
+}
+
+// Replace $1, $2, ... with literals so a parameterized statement can go into a script
+function inlineParams(sql: string, params: unknown[]): string {
+  if (params.length === 0) {
+    return sql;
+  }
+  return sql.replace(/\$(\d+)/g, (placeholder, position: string) => {
+    const index = Number(position) - 1;
+    if (index >= params.length) {
+      return placeholder;
+    }
+    const value = params[index];
+    if (value instanceof Date) {
+      return `'${value.toISOString()}'`;
+    }
+    return formatDefaultValue(value, Array.isArray(value) ? "array" : "text");
+  });
+}
+
+function getModelForeignKeys(config: ModelConfiguration): ForeignKeyDefinition[] {
+  return getForeignKeys(config.table, config.fields, config.relations);
+}
+
+// Foreign keys of a batch of models, once each, skipping keys owned by tables outside it
+// such as an unlisted pivot table
+function getBatchForeignKeys(configs: ModelConfiguration[]): ForeignKeyDefinition[] {
+  const tables = new Set(configs.map((config) => config.table));
+  const foreignKeys = new Map<string, ForeignKeyDefinition>();
+  for (const config of configs) {
+    getModelForeignKeys(config)
+      .filter((foreignKey) => tables.has(foreignKey.table))
+      .forEach((foreignKey) => foreignKeys.set(foreignKey.name, foreignKey));
+  }
+  return [...foreignKeys.values()];
+}
+
+// Tables of a cycle of foreign keys whose columns are all NOT NULL, such as
+// ['a', 'b', 'a'], or null. A table referencing itself is not a cycle: a row may
+// reference itself.
+function findRequiredCycle(
+  configs: ModelConfiguration[],
+  foreignKeys: ForeignKeyDefinition[]
+): string[] | null {
+  const isRequired = (foreignKey: ForeignKeyDefinition) => {
+    const config = configs.find((candidate) => candidate.table === foreignKey.table);
+    const { actualFields } = separateFieldsAndRelations(config?.fields ?? {});
+    return Object.entries(actualFields).some(
+      ([fieldName, fieldDef]) =>
+        getColumnName(fieldName, fieldDef) === foreignKey.column && !fieldDef.nullable
+    );
+  };
+  const edges = new Map<string, string[]>();
+  for (const foreignKey of foreignKeys) {
+    if (foreignKey.table === foreignKey.referencedTable || !isRequired(foreignKey)) continue;
+    edges.set(foreignKey.table, [...(edges.get(foreignKey.table) ?? []), foreignKey.referencedTable]);
+  }
+
+  const done = new Set<string>();
+  const path: string[] = [];
+  const visit = (table: string): string[] | null => {
+    const start = path.indexOf(table);
+    if (start >= 0) return [...path.slice(start), table];
+    if (done.has(table)) return null;
+    path.push(table);
+    for (const referenced of edges.get(table) ?? []) {
+      const cycle = visit(referenced);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    done.add(table);
+    return null;
+  };
+  for (const config of configs) {
+    const cycle = visit(config.table);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+// Order models so every table comes after the tables it references, keeping the given
+// order otherwise. Dependencies come from foreign keys and from hasOne / hasMany relations
+// in the registry, whose targets reference this table. A cycle is cut where the depth-first
+// walk finds it; the key closing it then points at a table created later.
+function sortByDependencies(
+  configs: ModelConfiguration[],
+  foreignKeys: ForeignKeyDefinition[]
+): ModelConfiguration[] {
+  const byTable = new Map(configs.map((config) => [config.table, config]));
+  const dependencies = new Map<string, Set<string>>(
+    configs.map((config) => [config.table, new Set<string>()])
+  );
+  const addDependency = (table: string, dependsOn: string) => {
+    if (table !== dependsOn && byTable.has(dependsOn)) {
+      dependencies.get(table)?.add(dependsOn);
+    }
+  };
+
+  for (const foreignKey of foreignKeys) {
+    addDependency(foreignKey.table, foreignKey.referencedTable);
+  }
+  for (const config of configs) {
+    const relations = getRegisteredModelByTable(config.table)?.actualRelations ?? {
+      ...separateFieldsAndRelations(config.fields).actualRelations,
+      ...config.relations,
+    };
+    for (const relation of Object.values(relations)) {
+      if (relation.type !== "hasOne" && relation.type !== "hasMany") continue;
+      const target = resolveRegisteredModel(relation.targetModel);
+      if (target) {
+        addDependency(target.table, config.table);
+      }
+    }
+  }
+
+  const ordered: ModelConfiguration[] = [];
+  const visited = new Set<string>();
+  const visit = (table: string) => {
+    if (visited.has(table)) return;
+    visited.add(table);
+    dependencies.get(table)?.forEach(visit);
+    ordered.push(byTable.get(table) as ModelConfiguration);
+  };
+  configs.forEach((config) => visit(config.table));
+  return ordered;
 }
@@ -0,0 +1,317 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ConsoleMigrationLogger, Migration, MigrationLogger } from "./migration";
+import { QueryExecutor } from "../types";
+
+export const MIGRATIONS_TABLE = "querio_migrations";
+
+// Migration file names start with a 14-digit timestamp: 20240131120000_create_users.ts
+const MIGRATION_FILE_PATTERN = /^(\d{14})_(\w+)\.(ts|js)$/;
+
+// File name for a new migration, stamped with the current UTC time
+export function migrationFileName(name: string, date: Date = new Date()): string {
+  if (!/^\w+$/.test(name)) {
+    throw new Error(`Invalid migration name '${name}': use letters, digits and underscores`);
+  }
+  const timestamp = date.toISOString().replace(/\D/g, "").slice(0, 14);
+  return `${timestamp}_${name}.ts`;
+}
+
+// A migration module exports up() and down(); set transaction = false for statements
+// that cannot run inside a transaction, such as CREATE INDEX CONCURRENTLY
+export interface MigrationModule {
+  up(migration: Migration, executor: QueryExecutor): Promise<void>;
+  down(migration: Migration, executor: QueryExecutor): Promise<void>;
+  transaction?: boolean;
+}
+
+export interface MigrationDefinition {
+  version: string;
+  name: string;
+  module: MigrationModule;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  applied: boolean;
+  appliedAt: Date | null;
+}
+
+// Runs callbacks on one dedicated connection, as PostgreSQLAdapter.withConnection does
+export interface MigrationConnectionProvider {
+  withConnection<T>(callback: (executor: QueryExecutor) => Promise<T>): Promise<T>;
+}
+
+export interface MigrationRunnerOptions {
+  directory?: string; // Folder of migration files
+  migrations?: MigrationDefinition[]; // Or the migrations themselves
+  tableName?: string; // Defaults to 'querio_migrations'
+  lockKey?: string; // Advisory lock name, defaults to the table name
+  dryRun?: boolean; // Collect the statements into a script instead of running them
+  outputFile?: string; // Write the script of each dry run to this .sql file
+  logger?: MigrationLogger; // Defaults to ConsoleMigrationLogger
+}
+
+// Applies versioned migrations in order and records them in the migrations table.
+// Every run holds a PostgreSQL advisory lock, so concurrent deploys apply each migration once.
+// A dry run reads which migrations are applied but writes nothing; the statements it would
+// run, bookkeeping included, are available from getScript().
+export class MigrationRunner {
+  private readonly tableName: string;
+  private readonly lockKey: string;
+  private readonly logger: MigrationLogger;
+  private lastRun: Migration | null = null;
+
+  constructor(
+    private readonly connection: MigrationConnectionProvider,
+    private readonly options: MigrationRunnerOptions = {}
+  ) {
+    this.tableName = options.tableName || MIGRATIONS_TABLE;
+    this.lockKey = options.lockKey || this.tableName;
+    this.logger = options.logger ?? new ConsoleMigrationLogger();
+    if (!options.directory && !options.migrations) {
+      throw new Error("MigrationRunner needs a migrations directory or a list of migrations");
+    }
+  }
+
+  // Apply every pending migration; returns the applied versions
+  async migrateUp(): Promise<string[]> {
+    return this.withLock(async (executor, recorder) => {
+      const applied = await this.getAppliedVersions(executor);
+      const pending = this.loadMigrations().filter(
+        (migration) => !applied.has(migration.version)
+      );
+      for (const migration of pending) {
+        await this.run(recorder, migration, "up");
+      }
+      return pending.map((migration) => migration.version);
+    });
+  }
+
+  // Revert the most recently applied migrations; returns the reverted versions
+  async migrateDown(steps: number = 1): Promise<string[]> {
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error(`Invalid number of steps '${steps}'`);
+    }
+    return this.withLock(async (executor, recorder) => {
+      const applied = await this.getAppliedVersions(executor);
+      const toRevert = [...applied.keys()].sort().reverse().slice(0, steps);
+      for (const version of toRevert) {
+        await this.run(recorder, this.findMigration(version), "down");
+      }
+      return toRevert;
+    });
+  }
+
+  // Apply or revert migrations until version is the latest applied one; '0' reverts all
+  async migrateTo(version: string): Promise<string[]> {
+    const migrations = this.loadMigrations();
+    if (version !== "0") {
+      this.findMigration(version, migrations);
+    }
+    return this.withLock(async (executor, recorder) => {
+      const applied = await this.getAppliedVersions(executor);
+      const toRevert = [...applied.keys()]
+        .filter((appliedVersion) => appliedVersion > version)
+        .sort()
+        .reverse();
+      for (const revertVersion of toRevert) {
+        await this.run(recorder, this.findMigration(revertVersion, migrations), "down");
+      }
+      const toApply = migrations.filter(
+        (migration) => migration.version <= version && !applied.has(migration.version)
+      );
+      for (const migration of toApply) {
+        await this.run(recorder, migration, "up");
+      }
+      return [...toRevert, ...toApply.map((migration) => migration.version)];
+    });
+  }
+
+  // Every known migration with whether and when it was applied
+  async status(): Promise<MigrationStatus[]> {
+    return this.connection.withConnection(async (executor) => {
+      const applied = await this.getAppliedVersions(executor);
+      return this.loadMigrations().map((migration) => ({
+        version: migration.version,
+        name: migration.name,
+        applied: applied.has(migration.version),
+        appliedAt: applied.get(migration.version) ?? null,
+      }));
+    });
+  }
+
+  // Statements of the last migrateUp / migrateDown / migrateTo call, as a SQL script
+  getScript(): string {
+    return this.lastRun ? this.lastRun.getScript() : "";
+  }
+
+  // Migrations sorted by version, from the options or the migrations directory
+  loadMigrations(): MigrationDefinition[] {
+    const migrations = this.options.migrations
+      ? [...this.options.migrations]
+      : this.readDirectory(this.options.directory as string);
+
+    const versions = new Set<string>();
+    for (const migration of migrations) {
+      if (versions.has(migration.version)) {
+        throw new Error(`Duplicate migration version '${migration.version}'`);
+      }
+      versions.add(migration.version);
+    }
+    return migrations.sort((a, b) => a.version.localeCompare(b.version));
+  }
+
+  private readDirectory(directory: string): MigrationDefinition[] {
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+    return fs
+      .readdirSync(directory)
+      .filter((file) => !file.endsWith(".d.ts"))
+      .map((file) => ({ file, match: MIGRATION_FILE_PATTERN.exec(file) }))
+      .filter(({ match }) => match !== null)
+      .map(({ file, match }) => {
+        const module: MigrationModule = require(path.resolve(directory, file));
+        if (typeof module.up !== "function" || typeof module.down !== "function") {
+          throw new Error(`Migration '${file}' must export up() and down() functions`);
+        }
+        return { version: match![1] as string, name: match![2] as string, module };
+      });
+  }
+
+  private findMigration(
+    version: string,
+    migrations: MigrationDefinition[] = this.loadMigrations()
+  ): MigrationDefinition {
+    const migration = migrations.find((candidate) => candidate.version === version);
+    if (!migration) {
+      throw new Error(`Migration '${version}' not found`);
+    }
+    return migration;
+  }
+
+  // Session-level advisory lock on a dedicated connection: a second runner waits here
+  // until the first one has finished, then sees its migrations as applied. Statements go
+  // through a Migration that records them; reads use the connection directly.
+  private async withLock<T>(
+    callback: (executor: QueryExecutor, recorder: Migration) => Promise<T>
+  ): Promise<T> {
+    return this.connection.withConnection(async (executor) => {
+      const recorder = new Migration(executor, {
+        dryRun: this.options.dryRun ?? false,
+        logger: this.logger,
+      });
+      this.lastRun = recorder;
+
+      // A dry run writes nothing, so it does not need the lock
+      if (this.options.dryRun) {
+        await this.ensureTable(recorder);
+        const result = await callback(executor, recorder);
+        if (this.options.outputFile) {
+          recorder.writeScript(this.options.outputFile);
+        }
+        recorder.reportSummary();
+        return result;
+      }
+
+      await executor.execute({
+        sql: "SELECT pg_advisory_lock(hashtext($1))",
+        params: [this.lockKey],
+      });
+      try {
+        await this.ensureTable(recorder);
+        return await callback(executor, recorder);
+      } finally {
+        await executor.execute({
+          sql: "SELECT pg_advisory_unlock(hashtext($1))",
+          params: [this.lockKey],
+        });
+      }
+    });
+  }
+
+  private async ensureTable(executor: QueryExecutor): Promise<void> {
+    await executor.execute({
+      sql: `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+        version VARCHAR(14) PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )`,
+      params: [],
+    });
+  }
+
+  // Empty until the migrations table exists, e.g. before the first run or during a dry run
+  private async getAppliedVersions(executor: QueryExecutor): Promise<Map<string, Date>> {
+    const table = await executor.executeOne<{ name: string | null }>({
+      sql: "SELECT to_regclass($1)::text AS name",
+      params: [this.tableName],
+    });
+    if (!table?.name) {
+      return new Map();
+    }
+    const rows = await executor.execute<{ version: string; applied_at: Date }>({
+      sql: `SELECT version, applied_at FROM ${this.tableName} ORDER BY version`,
+      params: [],
+    });
+    return new Map(rows.map((row) => [row.version, row.applied_at]));
+  }
+
+  // Run one direction of a migration and record it, in a transaction unless it opts out.
+  // The migration receives the recorder both as its Migration and as its executor.
+  private async run(
+    recorder: Migration,
+    migration: MigrationDefinition,
+    direction: "up" | "down"
+  ): Promise<void> {
+    const useTransaction = migration.module.transaction !== false;
+    if (useTransaction) {
+      await recorder.execute({ sql: "BEGIN", params: [] });
+    }
+    try {
+      await migration.module[direction](recorder, recorder);
+      await recorder.execute(
+        direction === "up"
+          ? {
+              sql: `INSERT INTO ${this.tableName} (version, name) VALUES ($1, $2)`,
+              params: [migration.version, migration.name],
+            }
+          : {
+              sql: `DELETE FROM ${this.tableName} WHERE version = $1`,
+              params: [migration.version],
+            }
+      );
+      if (useTransaction) {
+        await recorder.execute({ sql: "COMMIT", params: [] });
+      }
+    } catch (error) {
+      if (useTransaction) {
+        // A failed ROLLBACK is logged; the migration's own error is the one to report
+        try {
+          await recorder.execute({ sql: "ROLLBACK", params: [] });
+        } catch (rollbackError) {
+          this.logger.error(
+            `Rollback of migration ${migration.version}_${migration.name} failed`,
+            rollbackError
+          );
+        }
+      }
+      throw new Error(
+        `Migration ${migration.version}_${migration.name} failed (${direction}): ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        { cause: error }
+      );
+    }
+    const verb = this.options.dryRun
+      ? direction === "up"
+        ? "📝 Would apply"
+        : "📝 Would revert"
+      : direction === "up"
+      ? "✅ Applied"
+      : "↩️ Reverted";
+    this.logger.info(`${verb} migration ${migration.version}_${migration.name}`);
+  }
+}
@@ -4,8 +4,21 @@ import {
   WhereCondition,
   SelectFields,
   InferEntityType,
+  JoinRelationOptions,
+  CteSource,
+  CteOptions,
+  RecursiveCteOptions,
+  OrderByExpression,
 } from "../types";
 import { QueryBuilder, SelectQueryBuilder } from "../builder/QueryBuilder";
+import {
+  AggregateCondition,
+  AggregateExpression,
+  AggregateFunction,
+  GroupedBy,
+  SumValue,
+} from "../builder/aggregates";
+import { SqlFragment } from "../builder/sql";
 import { RelationDefinition, WithRelations } from "./relations";
 import { ModelConfiguration, registerModel } from "./modelRegistry";
 import { RelationLoader } from "./relationLoader";
@@ -33,19 +46,61 @@ export interface ModelInstance<T = any> {
   ) => QueryBuilderWithRelations<T>;
 
   // Order and limit methods
-  orderBy: (field: keyof T, direction?: "asc" | "desc") => QueryBuilder<T>;
+  orderBy: (
+    field: OrderByExpression<T>,
+    direction?: "asc" | "desc"
+  ) => QueryBuilder<T>;
   limit: (count: number) => QueryBuilder<T>;
   offset: (count: number) => QueryBuilder<T>;
 
   // Group by methods
-  groupBy: (...fields: (keyof T)[]) => QueryBuilder<T>;
-  addGroupBy: (...fields: (keyof T)[]) => QueryBuilder<T>;
+  groupBy: <K extends keyof T>(
+    ...fields: K[]
+  ) => QueryBuilder<T> & GroupedBy<K>;
+  addGroupBy: <K extends keyof T>(
+    ...fields: K[]
+  ) => QueryBuilder<T> & GroupedBy<K>;
   having: (condition: WhereCondition<T>) => QueryBuilder<T>;
 
+  // Aggregate methods
+  sum: <K extends keyof T>(field: K) => Promise<SumValue<T[K]>>;
+  avg: <K extends keyof T>(field: K) => Promise<number | null>;
+  min: <K extends keyof T>(field: K) => Promise<T[K] | null>;
+  max: <K extends keyof T>(field: K) => Promise<T[K] | null>;
+
   // Join methods
-  innerJoin: (table: string, on: string, alias?: string) => QueryBuilder<T>;
-  leftJoin: (table: string, on: string, alias?: string) => QueryBuilder<T>;
-  rightJoin: (table: string, on: string, alias?: string) => QueryBuilder<T>;
+  innerJoin: (
+    table: string,
+    on: string | SqlFragment,
+    alias?: string
+  ) => QueryBuilder<T>;
+  leftJoin: (
+    table: string,
+    on: string | SqlFragment,
+    alias?: string
+  ) => QueryBuilder<T>;
+  rightJoin: (
+    table: string,
+    on: string | SqlFragment,
+    alias?: string
+  ) => QueryBuilder<T>;
+  joinRelation: (
+    relationName: string,
+    options?: JoinRelationOptions
+  ) => QueryBuilder<T>;
+
+  // Common table expressions
+  withCte: (
+    name: string,
+    source: CteSource,
+    options?: CteOptions
+  ) => QueryBuilder<T>;
+  withRecursive: (
+    name: string,
+    anchor: CteSource,
+    recursive: CteSource,
+    options?: RecursiveCteOptions
+  ) => QueryBuilder<T>;
 
   // Relation methods
   load: <K extends keyof T>(entity: T, relations: K[]) => Promise<T>;
@@ -103,23 +158,37 @@ export class QueryBuilderWithRelations<T> extends QueryBuilder<T> {
     return this;
   }
 
-  orderBy(field: keyof T, direction: "asc" | "desc" = "asc"): this {
+  orderBy(field: OrderByExpression<T>, direction: "asc" | "desc" = "asc"): this {
     super.orderBy(field, direction);
     return this;
   }
 
-  groupBy(...fields: (keyof T)[]): this {
+  groupBy<K extends keyof T>(...fields: K[]): this & GroupedBy<K> {
     super.groupBy(...fields);
-    return this;
+    return this as this & GroupedBy<K>;
   }
 
-  addGroupBy(...fields: (keyof T)[]): this {
+  addGroupBy<K extends keyof T>(...fields: K[]): this & GroupedBy<K> {
     super.addGroupBy(...fields);
-    return this;
+    return this as this & GroupedBy<K>;
   }
 
-  having(condition: WhereCondition<T>): this {
-    super.having(condition);
+  having(condition: WhereCondition<T>): this;
+  having(
+    aggregate: AggregateExpression<AggregateFunction, Extract<keyof T, string>>,
+    condition: AggregateCondition
+  ): this;
+  having(
+    conditionOrAggregate:
+      | WhereCondition<T>
+      | AggregateExpression<AggregateFunction, Extract<keyof T, string>>,
+    condition?: AggregateCondition
+  ): this {
+    if (conditionOrAggregate instanceof AggregateExpression) {
+      super.having(conditionOrAggregate, condition as AggregateCondition);
+    } else {
+      super.having(conditionOrAggregate);
+    }
     return this;
   }
 
@@ -234,6 +303,12 @@ export function defineModel<T = any>(
     addGroupBy: (...fields) => createQueryBuilder().addGroupBy(...fields),
     having: (condition) => createQueryBuilder().having(condition),
 
+    // Aggregate methods
+    sum: (field) => createQueryBuilder().sum(field),
+    avg: (field) => createQueryBuilder().avg(field),
+    min: (field) => createQueryBuilder().min(field),
+    max: (field) => createQueryBuilder().max(field),
+
     // Join methods
     innerJoin: (table, on, alias) =>
       createQueryBuilder().innerJoin(table, on, alias),
@@ -241,6 +316,14 @@ export function defineModel<T = any>(
       createQueryBuilder().leftJoin(table, on, alias),
     rightJoin: (table, on, alias) =>
       createQueryBuilder().rightJoin(table, on, alias),
+    joinRelation: (relationName, options) =>
+      createQueryBuilder().joinRelation(relationName, options),
+
+    // Common table expressions
+    withCte: (name, source, options) =>
+      createQueryBuilder().withCte(name, source, options),
+    withRecursive: (name, anchor, recursive, options) =>
+      createQueryBuilder().withRecursive(name, anchor, recursive, options),
 
     // Relation methods
     load: async <K extends keyof T>(entity: T, relations: K[]) => {
@@ -0,0 +1,478 @@
+import {
+  DatabaseSchema,
+  introspectDatabase,
+  IntrospectedColumn,
+  IntrospectedConstraint,
+  IntrospectedTable,
+  IntrospectionOptions,
+} from "./introspection";
+import { MIGRATIONS_TABLE } from "./migrationRunner";
+import { camelToSnake, QueryExecutor, snakeToCamel } from "../types";
+
+export interface GenerateModelsOptions extends IntrospectionOptions {
+  tables?: string[]; // Only generate these tables
+  ignoreTables?: string[]; // Tables to skip; the migrations table is always skipped
+  importPath?: string; // Module the generated files import from, defaults to 'querio'
+}
+
+export interface GeneratedFile {
+  fileName: string; // One <Model>.ts per table, plus an index.ts exporting every model
+  source: string;
+}
+
+// A field builder call being assembled, e.g. nullable.varchar({ length: 32 })
+interface FieldCall {
+  builder: string;
+  args: string[];
+  options: Array<[string, string]>;
+  defaultValue?: string;
+  comments: string[];
+}
+
+interface GeneratedModel {
+  name: string;
+  table: IntrospectedTable;
+  fieldNames: Map<string, string>; // Column name -> field name
+  relations: Array<[string, string]>; // Relation name -> builder call
+  imports: Set<string>;
+}
+
+const SIMPLE_TYPES: Record<string, string> = {
+  text: "text",
+  uuid: "uuid",
+  integer: "integer",
+  smallint: "smallint",
+  bigint: "bigint",
+  boolean: "boolean",
+  date: "date",
+  interval: "interval",
+  real: "real",
+  "double precision": "double",
+  bytea: "bytea",
+  inet: "inet",
+  cidr: "cidr",
+  json: "json",
+  jsonb: "json",
+  tsvector: "tsvector",
+};
+
+// Builders whose options accept primaryKey and references; others get them spread in
+const KEY_BUILDERS = new Set(["uuid", "integer", "smallint", "bigint", "varchar", "char"]);
+const REFERENCE_BUILDERS = new Set([...KEY_BUILDERS, "text"]);
+
+// Read the database and generate a defineModel() file for each table
+export async function generateModels(
+  executor: QueryExecutor,
+  options: GenerateModelsOptions = {}
+): Promise<GeneratedFile[]> {
+  const database = await introspectDatabase(
+    executor,
+    options.schema ? { schema: options.schema } : {}
+  );
+  return generateModelFiles(database, options);
+}
+
+// Generate model files from an introspected schema
+export function generateModelFiles(
+  database: DatabaseSchema,
+  options: GenerateModelsOptions = {}
+): GeneratedFile[] {
+  const ignored = new Set([MIGRATIONS_TABLE, ...(options.ignoreTables || [])]);
+  const tables = Object.values(database.tables)
+    .filter((table) => !ignored.has(table.name))
+    .filter((table) => !options.tables || options.tables.includes(table.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const modelNames = new Set<string>();
+  const models = new Map<string, GeneratedModel>();
+  for (const table of tables) {
+    const fieldNames = new Map<string, string>();
+    const usedFieldNames = new Set<string>();
+    for (const column of table.columns) {
+      fieldNames.set(column.name, uniqueName(toIdentifier(column.name), usedFieldNames));
+    }
+    models.set(table.name, {
+      name: uniqueName(modelNameFor(table.name), modelNames),
+      table,
+      fieldNames,
+      relations: [],
+      imports: new Set(["defineModel"]),
+    });
+  }
+
+  addRelations(models);
+
+  const importPath = options.importPath || "querio";
+  const files = [...models.values()].map((model) => ({
+    fileName: `${model.name}.ts`,
+    source: renderModel(model, models, database.enums, importPath),
+  }));
+  files.push({
+    fileName: "index.ts",
+    source: [...models.values()]
+      .map((model) => `export { ${model.name} } from "./${model.name}";\n`)
+      .join(""),
+  });
+  return files;
+}
+
+// belongsTo() on the referencing model and hasMany() / hasOne() on the referenced one,
+// for single-column foreign keys between generated tables
+function addRelations(models: Map<string, GeneratedModel>): void {
+  const usedNames = new Map<string, Set<string>>();
+  for (const model of models.values()) {
+    usedNames.set(model.table.name, new Set(model.fieldNames.values()));
+  }
+
+  for (const model of models.values()) {
+    const foreignKeys = singleColumnForeignKeys(model.table);
+    for (const foreignKey of foreignKeys) {
+      const target = models.get(foreignKey.referencedTable as string);
+      if (!target) continue;
+
+      const column = foreignKey.columns[0] as string;
+      const fieldName = model.fieldNames.get(column) as string;
+      const localKey = target.fieldNames.get(
+        (foreignKey.referencedColumns as string[])[0] as string
+      ) as string;
+      const localKeyArg = localKey === "id" ? "" : `, ${JSON.stringify(localKey)}`;
+
+      const belongsToName = uniqueName(
+        fieldName.replace(/_?(Id|ID|id)$/, "") || lowerFirst(target.name),
+        usedNames.get(model.table.name) as Set<string>
+      );
+      model.relations.push([
+        belongsToName,
+        `belongsTo(${JSON.stringify(target.name)}, ${JSON.stringify(fieldName)}${localKeyArg})`,
+      ]);
+      model.imports.add("belongsTo");
+
+      // A unique foreign key points at one record
+      const one = isUniqueColumn(model.table, column);
+      const siblings = foreignKeys.filter(
+        (candidate) => candidate.referencedTable === foreignKey.referencedTable
+      );
+      let inverseName = one ? lowerFirst(model.name) : toIdentifier(model.table.name);
+      if (siblings.length > 1) {
+        inverseName += `By${upperFirst(belongsToName)}`;
+      }
+      const builder = one ? "hasOne" : "hasMany";
+      target.relations.push([
+        uniqueName(inverseName, usedNames.get(target.table.name) as Set<string>),
+        `${builder}(${JSON.stringify(model.name)}, ${JSON.stringify(fieldName)}${localKeyArg})`,
+      ]);
+      target.imports.add(builder);
+    }
+  }
+}
+
+function renderModel(
+  model: GeneratedModel,
+  models: Map<string, GeneratedModel>,
+  enums: Record<string, string[]>,
+  importPath: string
+): string {
+  const { table } = model;
+  const primaryKey = table.constraints.find((constraint) => constraint.type === "primary");
+  const foreignKeys = singleColumnForeignKeys(table);
+
+  const fieldLines: string[] = [];
+  for (const column of table.columns) {
+    const fieldName = model.fieldNames.get(column.name) as string;
+    const call = fieldCall(table.name, column, enums);
+
+    if (camelToSnake(fieldName) !== column.name) {
+      call.options.push(["column", JSON.stringify(column.name)]);
+    }
+    if (primaryKey?.columns.includes(column.name)) {
+      call.options.push(["primaryKey", "true"]);
+    } else if (isUniqueColumn(table, column.name)) {
+      call.options.push(["unique", "true"]);
+    }
+
+    // Keys to tables outside the generated set, and referential actions, need an explicit
+    // reference; a belongsTo() relation covers the rest
+    const foreignKey = foreignKeys.find((candidate) => candidate.columns[0] === column.name);
+    const target = foreignKey && models.get(foreignKey.referencedTable as string);
+    if (foreignKey && (!target || foreignKey.onDelete || foreignKey.onUpdate)) {
+      const referencedColumn = (foreignKey.referencedColumns as string[])[0] as string;
+      const reference = [
+        `model: ${JSON.stringify(target ? target.name : foreignKey.referencedTable)}`,
+        `field: ${JSON.stringify(target?.fieldNames.get(referencedColumn) ?? snakeToCamel(referencedColumn))}`,
+        ...(foreignKey.onDelete ? [`onDelete: "${foreignKey.onDelete}"`] : []),
+        ...(foreignKey.onUpdate ? [`onUpdate: "${foreignKey.onUpdate}"`] : []),
+      ];
+      call.options.push(["references", `{ ${reference.join(", ")} }`]);
+    }
+    if (call.defaultValue !== undefined) {
+      call.options.push(["default", call.defaultValue]);
+    }
+
+    for (const comment of call.comments) {
+      fieldLines.push(`    // ${comment}`);
+    }
+    fieldLines.push(`    ${fieldName}: ${renderFieldCall(call, column.nullable, model.imports)},`);
+  }
+
+  const uniqueConstraints = table.constraints
+    .filter((constraint) => constraint.type === "unique" && constraint.columns.length > 1)
+    .map((constraint) => {
+      const fields = constraint.columns.map((column) => model.fieldNames.get(column) as string);
+      // Name it only when PostgreSQL would not pick the same name
+      const defaultName = `${table.name}_${constraint.columns.join("_")}_key`;
+      const nameArg = constraint.name === defaultName ? "" : `, ${JSON.stringify(constraint.name)}`;
+      return `uniqueConstraint(${literalList(fields)}${nameArg})`;
+    });
+
+  const lines = [
+    `export const ${model.name} = defineModel(${JSON.stringify(model.name)}, {`,
+    `  table: ${JSON.stringify(table.name)},`,
+    "  fields: {",
+    ...fieldLines,
+    "  },",
+  ];
+  if (uniqueConstraints.length > 0) {
+    model.imports.add("createConstraints");
+    model.imports.add("uniqueConstraint");
+    lines.push(
+      "  constraints: createConstraints({",
+      "    unique: [",
+      ...uniqueConstraints.map((constraint) => `      ${constraint},`),
+      "    ],",
+      "  }),"
+    );
+  }
+  if (model.relations.length > 0) {
+    lines.push(
+      "  relations: {",
+      ...model.relations.map(([name, relation]) => `    ${name}: ${relation},`),
+      "  },"
+    );
+  }
+  lines.push("});");
+
+  return [
+    `import { ${[...model.imports].sort().join(", ")} } from ${JSON.stringify(importPath)};`,
+    "",
+    ...lines,
+    "",
+  ].join("\n");
+}
+
+// Builder, arguments and options reproducing a column's type and default
+function fieldCall(
+  tableName: string,
+  column: IntrospectedColumn,
+  enums: Record<string, string[]>
+): FieldCall {
+  const call = typeCall(column.dataType, enums);
+  if (call.builder === "enumField") {
+    const enumName = enumTypeName(column.dataType);
+    if (enumName !== `${tableName}_${column.name}_enum`) {
+      call.options.push(["enumName", JSON.stringify(enumName)]);
+    }
+  }
+
+  if (column.generated) {
+    call.comments.push(`Generated column: GENERATED ALWAYS AS (${column.default}) STORED`);
+  } else if (column.default !== null) {
+    const value = defaultLiteral(column.default, call.builder);
+    if (value === undefined) {
+      call.comments.push(`Default not generated: ${column.default}`);
+    } else {
+      call.defaultValue = value;
+    }
+  }
+  return call;
+}
+
+function typeCall(dataType: string, enums: Record<string, string[]>): FieldCall {
+  const call = (builder: string, options: Array<[string, string]> = []): FieldCall => ({
+    builder,
+    args: [],
+    options,
+    comments: [],
+  });
+  const type = dataType.toLowerCase();
+
+  if (type.endsWith("[]")) {
+    const element = typeCall(dataType.slice(0, -2), enums);
+    if (element.builder !== "enumField" && element.builder !== "array" && element.comments.length === 0) {
+      return { ...call("array"), args: [renderCall(element.builder, element.options)] };
+    }
+    return { ...call("text"), comments: [`Unsupported type '${dataType}'`] };
+  }
+
+  const simple = SIMPLE_TYPES[type];
+  if (simple) {
+    return call(simple);
+  }
+
+  let match = /^character varying(?:\((\d+)\))?$/.exec(type);
+  if (match) {
+    return call("varchar", match[1] ? [["length", match[1]]] : []);
+  }
+  match = /^character\((\d+)\)$/.exec(type);
+  if (match) {
+    return call("char", match[1] === "1" ? [] : [["length", match[1] as string]]);
+  }
+  match = /^numeric(?:\((\d+)(?:,(\d+))?\))?$/.exec(type);
+  if (match) {
+    return call("decimal", [
+      ...(match[1] ? [["precision", match[1]] as [string, string]] : []),
+      ...(match[2] ? [["scale", match[2]] as [string, string]] : []),
+    ]);
+  }
+  match = /^(timestamp|time)(?:\(\d+\))? with(out)? time zone$/.exec(type);
+  if (match) {
+    // timestamp() defaults to WITH TIME ZONE and time() to WITHOUT
+    const withTimezone = !match[2];
+    const builder = match[1] as string;
+    return withTimezone === (builder === "timestamp")
+      ? call(builder)
+      : call(builder, [["withTimezone", String(withTimezone)]]);
+  }
+
+  const values = enums[enumTypeName(dataType)];
+  if (values) {
+    return { ...call("enumField"), args: [literalList(values)] };
+  }
+  return { ...call("text"), comments: [`Unsupported type '${dataType}'`] };
+}
+
+// Enum types come back from format_type() quoted and schema-qualified when needed
+function enumTypeName(dataType: string): string {
+  return dataType.replace(/"/g, "").replace(/^[^.]+\./, "");
+}
+
+// The default option for a pg_get_expr() default, or undefined for other expressions
+function defaultLiteral(expression: string, builder: string): string | undefined {
+  let value = expression.trim();
+  let previous: string;
+  do {
+    previous = value;
+    value = value.replace(/::[a-z_][\w ."]*(\(\d+(,\s*\d+)?\))?(\[\])*$/i, "").trim();
+  } while (value !== previous);
+
+  const quoted = /^'((?:[^']|'')*)'$/.exec(value);
+  if (quoted) {
+    const text = (quoted[1] as string).replace(/''/g, "'");
+    return builder === "array" ? undefined : JSON.stringify(text);
+  }
+  const numeric = /^\(?(-?\d+(\.\d+)?)\)?$/.exec(value);
+  if (numeric) {
+    return numeric[1];
+  }
+  const lower = value.toLowerCase();
+  if (lower === "true" || lower === "false") {
+    return lower;
+  }
+  if (builder === "uuid" && lower === "gen_random_uuid()") {
+    return '"gen_random_uuid()"';
+  }
+  if (builder === "timestamp" && (lower === "now()" || lower === "current_timestamp")) {
+    return '"now()"';
+  }
+  if (builder === "date" && lower === "current_date") {
+    return '"current_date"';
+  }
+  return undefined;
+}
+
+function renderFieldCall(call: FieldCall, nullable: boolean, imports: Set<string>): string {
+  let options = call.options;
+  let builder = call.builder;
+
+  // Options the builder does not accept are spread onto its result
+  const spread = options.filter(
+    ([key]) =>
+      (key === "primaryKey" && !KEY_BUILDERS.has(builder)) ||
+      (key === "references" && !REFERENCE_BUILDERS.has(builder))
+  );
+  options = options.filter((option) => !spread.includes(option));
+
+  if (nullable && builder !== "enumField") {
+    imports.add("nullable");
+    builder = `nullable.${builder}`;
+  } else {
+    imports.add(builder);
+    if (nullable) {
+      options = [...options, ["nullable", "true"]];
+    }
+  }
+  for (const arg of call.args) {
+    const inner = /^(\w+)\(/.exec(arg);
+    if (inner) {
+      imports.add(inner[1] as string);
+    }
+  }
+
+  const rendered = renderCall(builder, options, call.args);
+  if (spread.length === 0) {
+    return rendered;
+  }
+  return `{ ...${rendered}, ${spread.map(([key, value]) => `${key}: ${value}`).join(", ")} }`;
+}
+
+function renderCall(builder: string, options: Array<[string, string]>, args: string[] = []): string {
+  const optionsLiteral =
+    options.length > 0 ? [`{ ${options.map(([key, value]) => `${key}: ${value}`).join(", ")} }`] : [];
+  return `${builder}(${[...args, ...optionsLiteral].join(", ")})`;
+}
+
+function literalList(values: string[]): string {
+  return `[${values.map((value) => JSON.stringify(value)).join(", ")}]`;
+}
+
+function singleColumnForeignKeys(table: IntrospectedTable): IntrospectedConstraint[] {
+  return table.constraints.filter(
+    (constraint) =>
+      constraint.type === "foreign" &&
+      constraint.columns.length === 1 &&
+      constraint.referencedColumns?.length === 1
+  );
+}
+
+function isUniqueColumn(table: IntrospectedTable, column: string): boolean {
+  return table.constraints.some(
+    (constraint) =>
+      (constraint.type === "unique" || constraint.type === "primary") &&
+      constraint.columns.length === 1 &&
+      constraint.columns[0] === column
+  );
+}
+
+// users -> User, order_items -> OrderItem
+function modelNameFor(tableName: string): string {
+  return upperFirst(singularize(toIdentifier(tableName)));
+}
+
+function singularize(name: string): string {
+  if (/ies$/.test(name)) return name.replace(/ies$/, "y");
+  if (/(ss|x|z|ch|sh)es$/.test(name)) return name.replace(/es$/, "");
+  if (/[^s]s$/.test(name)) return name.slice(0, -1);
+  return name;
+}
+
+// A valid camelCase identifier for a database name, e.g. 'created_at' -> createdAt
+function toIdentifier(name: string): string {
+  const identifier = snakeToCamel(name.replace(/[^A-Za-z0-9_$]+/g, "_"));
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let suffix = 2; used.has(candidate); suffix++) {
+    candidate = `${name}${suffix}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+function upperFirst(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
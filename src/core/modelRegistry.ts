@@ -1,10 +1,16 @@
-import { FieldsDefinition, TableConstraints, FieldDefinition } from "../types";
+import {
+  FieldsDefinition,
+  TableConstraints,
+  FieldDefinition,
+  IndexDefinition,
+} from "../types";
 import { RelationDefinition, Relation } from "./relations";
 
 export interface ModelConfiguration {
   table: string;
   fields: FieldsDefinition;
   constraints?: TableConstraints;
+  indexes?: IndexDefinition[];
   relations?: RelationDefinition; // Keep for backward compatibility
 }
 
@@ -18,7 +24,7 @@ export interface RegisteredModel extends ModelConfiguration {
 const modelRegistry = new Map<string, RegisteredModel>();
 
 // Helper function to separate fields from relations
-function separateFieldsAndRelations(fields: FieldsDefinition): {
+export function separateFieldsAndRelations(fields: FieldsDefinition): {
   actualFields: Record<string, FieldDefinition>;
   actualRelations: RelationDefinition;
 } {
@@ -80,6 +86,25 @@ export function clearModelRegistry(): void {
   modelRegistry.clear();
 }
 
+// Helper to find a registered model by its table name
+export function getRegisteredModelByTable(
+  table: string
+): RegisteredModel | undefined {
+  for (const model of modelRegistry.values()) {
+    if (model.table === table) {
+      return model;
+    }
+  }
+  return undefined;
+}
+
+// Relation targets may reference either a model name or a table name
+export function resolveRegisteredModel(
+  nameOrTable: string
+): RegisteredModel | undefined {
+  return getRegisteredModel(nameOrTable) || getRegisteredModelByTable(nameOrTable);
+}
+
 // Helper to check if a model exists
 export function modelExists(name: string): boolean {
   return modelRegistry.has(name);
@@ -1,17 +1,29 @@
-import { FieldDefinition, FieldsDefinition, getColumnName, TableConstraints } from '../types';
+import { FieldDefinition, FieldsDefinition, getColumnName, getPrimaryKeyField, camelToSnake, TableConstraints, ReferentialAction, IndexDefinition, IndexMethod } from '../types';
+import { searchLanguage } from '../builder/search';
+import { RelationDefinition } from './relations';
+import { resolveRegisteredModel, separateFieldsAndRelations } from './modelRegistry';
 
 export interface CreateTableOptions {
   dropIfExists?: boolean;
   schema?: string;
+  includeEnums?: boolean; // Prepend CREATE TYPE for the table's enums (default true)
 }
 
+export interface CreateIndexOptions {
+  schema?: string;
+  concurrently?: boolean; // Build without locking writes; cannot run inside a transaction
+  ifNotExists?: boolean;
+}
+
+const INDEX_METHODS: IndexMethod[] = ['btree', 'hash', 'gin', 'gist', 'brin', 'spgist'];
+
 export function generateCreateTableSQL(
   tableName: string,
   fieldsDefinition: FieldsDefinition,
   options: CreateTableOptions = {},
   constraints?: TableConstraints
 ): string {
-  const { dropIfExists = false, schema } = options;
+  const { dropIfExists = false, schema, includeEnums = true } = options;
   const fullTableName = schema ? `${schema}.${tableName}` : tableName;
   
   let sql = '';
@@ -21,15 +33,17 @@ export function generateCreateTableSQL(
     sql += `DROP TABLE IF EXISTS ${fullTableName} CASCADE;\n\n`;
   }
   
-  // Create enum types first and build a map for reuse
+  // Create enum types first and build a map for reuse; the types live in the table's schema
   const enumTypes = getEnumTypes(tableName, fieldsDefinition);
-  const enumMap = createEnumNameMap(tableName, fieldsDefinition);
+  const enumMap = qualifyEnumNameMap(createEnumNameMap(tableName, fieldsDefinition), schema);
   
-  for (const enumType of enumTypes) {
-    sql += generateCreateEnumSQL(enumType.name, enumType.values) + '\n';
+  if (includeEnums) {
+    for (const enumType of enumTypes) {
+      sql += generateCreateEnumSQL(schema ? `${schema}.${enumType.name}` : enumType.name, enumType.values) + '\n';
+    }
   }
   
-  if (enumTypes.length > 0) {
+  if (includeEnums && enumTypes.length > 0) {
     sql += '\n';
   }
   
@@ -38,11 +52,13 @@ export function generateCreateTableSQL(
   
   const columnDefinitions: string[] = [];
   const uniqueConstraints: string[] = [];
+  const checkConstraints: string[] = [];
   let primaryKeyColumns: string[] = [];
-    // Generate column definitions
-  for (const [fieldName, fieldDef] of Object.entries(fieldsDefinition)) {
+    // Generate column definitions; relations declared among the fields have no column
+  const { actualFields } = separateFieldsAndRelations(fieldsDefinition);
+  for (const [fieldName, fieldDef] of Object.entries(actualFields)) {
     const columnName = getColumnName(fieldName, fieldDef);
-    const columnDef = generateColumnDefinition(columnName, fieldDef, enumMap, fieldName);
+    const columnDef = generateColumnDefinition(columnName, fieldDef, enumMap, fieldName, fieldsDefinition);
     columnDefinitions.push(`  ${columnDef}`);
     
     // Collect primary key columns
@@ -54,6 +70,12 @@ export function generateCreateTableSQL(
     if (fieldDef.unique && !fieldDef.primaryKey) {
       uniqueConstraints.push(`  UNIQUE (${columnName})`);
     }
+    
+    // Collect CHECK constraints for validation rules the database can enforce
+    const checkExpression = generateCheckExpression(columnName, fieldDef);
+    if (checkExpression) {
+      checkConstraints.push(`  CONSTRAINT ${tableName}_${columnName}_check CHECK (${checkExpression})`);
+    }
   }
 
   // Add primary key constraint
@@ -90,49 +112,223 @@ export function generateCreateTableSQL(
     }
   }
   
+  // Add CHECK constraints from field validation rules
+  columnDefinitions.push(...checkConstraints);
+  
   sql += columnDefinitions.join(',\n');
   sql += '\n);';
   
   return sql;
 }
 
-export function createEnumNameMap(tableName: string, fieldsDefinition: FieldsDefinition): Map<string, string> {
-  const enumMap = new Map<string, string>();
-  const valueToName = new Map<string, string>();
-  
-  for (const [fieldName, fieldDef] of Object.entries(fieldsDefinition)) {
-    if (fieldDef.type === 'enum' && fieldDef.enumValues) {
-      let enumName: string;
-      
-      if (fieldDef.enumName) {
-        // Use custom enum name
-        enumName = fieldDef.enumName;
-      } else {
-        // Check if we already have an enum with the same values
-        const sortedValues = [...fieldDef.enumValues].sort();
-        const valuesKey = JSON.stringify(sortedValues);
-        const existingEnumName = valueToName.get(valuesKey);
-        
-        if (existingEnumName) {
-          // Reuse existing enum type
-          enumName = existingEnumName;
-        } else {
-          // Create new enum type with tablename_property pattern
-          enumName = `${tableName}_${fieldName}_enum`;
-          valueToName.set(valuesKey, enumName);
-        }
-      }
-      
-      enumMap.set(fieldName, enumName);
+// A foreign key constraint, owned by table and added once every table exists
+export interface ForeignKeyDefinition {
+  name: string;
+  table: string;
+  column: string;
+  referencedTable: string;
+  referencedColumn: string;
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+const REFERENTIAL_ACTIONS: Record<ReferentialAction, string> = {
+  cascade: 'CASCADE',
+  restrict: 'RESTRICT',
+  setNull: 'SET NULL',
+  setDefault: 'SET DEFAULT',
+  noAction: 'NO ACTION'
+};
+
+// Table and column of a model field; unregistered targets are taken as table names
+function resolveReference(modelOrTable: string, field: string): { table: string; column: string } {
+  const model = resolveRegisteredModel(modelOrTable);
+  if (!model) {
+    return { table: modelOrTable, column: camelToSnake(field) };
+  }
+  return { table: model.table, column: getColumnName(field, model.actualFields[field]) };
+}
+
+// Foreign keys implied by a model: field references, belongsTo relations and the pivot
+// tables of belongsToMany relations. An explicit field reference wins over a relation.
+export function getForeignKeys(
+  tableName: string,
+  fieldsDefinition: FieldsDefinition,
+  relations: RelationDefinition = {}
+): ForeignKeyDefinition[] {
+  const { actualFields, actualRelations } = separateFieldsAndRelations(fieldsDefinition);
+  const foreignKeys = new Map<string, ForeignKeyDefinition>();
+  const add = (foreignKey: Omit<ForeignKeyDefinition, 'name'>) => {
+    const name = `${foreignKey.table}_${foreignKey.column}_fkey`;
+    if (!foreignKeys.has(name)) {
+      foreignKeys.set(name, { name, ...foreignKey });
     }
+  };
+
+  for (const [fieldName, fieldDef] of Object.entries(actualFields)) {
+    if (!fieldDef.references) continue;
+    const target = resolveReference(fieldDef.references.model, fieldDef.references.field || 'id');
+    add({
+      table: tableName,
+      column: getColumnName(fieldName, fieldDef),
+      referencedTable: target.table,
+      referencedColumn: target.column,
+      ...(fieldDef.references.onDelete && { onDelete: fieldDef.references.onDelete }),
+      ...(fieldDef.references.onUpdate && { onUpdate: fieldDef.references.onUpdate })
+    });
   }
-  
-  return enumMap;
+
+  for (const relation of Object.values({ ...actualRelations, ...relations })) {
+    if (relation.type === 'belongsTo' && actualFields[relation.foreignKey]) {
+      const target = resolveReference(relation.targetModel, relation.localKey || 'id');
+      add({
+        table: tableName,
+        column: getColumnName(relation.foreignKey, actualFields[relation.foreignKey]),
+        referencedTable: target.table,
+        referencedColumn: target.column
+      });
+    } else if (relation.type === 'belongsToMany') {
+      const pivot = resolveReference(relation.pivotTable, relation.pivotForeignKey);
+      const localKey = relation.pivotLocalKey || 'id';
+      add({
+        table: pivot.table,
+        column: pivot.column,
+        referencedTable: tableName,
+        referencedColumn: getColumnName(localKey, actualFields[localKey])
+      });
+      // The pivot references the target's primary key, as joinRelation() joins on it
+      const pivotRelated = resolveReference(relation.pivotTable, relation.pivotRelatedKey);
+      const targetModel = resolveRegisteredModel(relation.targetModel);
+      const target = resolveReference(
+        relation.targetModel,
+        targetModel ? getPrimaryKeyField(targetModel.actualFields) : 'id'
+      );
+      add({
+        table: pivotRelated.table,
+        column: pivotRelated.column,
+        referencedTable: target.table,
+        referencedColumn: target.column
+      });
+    }
+  }
+
+  return [...foreignKeys.values()];
 }
 
-export function generateColumnDefinition(columnName: string, fieldDef: FieldDefinition, enumMap?: Map<string, string>, fieldName?: string): string {
+// FOREIGN KEY (author_id) REFERENCES users (id) ON DELETE CASCADE
+export function generateForeignKeyDefinition(foreignKey: ForeignKeyDefinition, schema?: string): string {
+  const referencedTable = schema ? `${schema}.${foreignKey.referencedTable}` : foreignKey.referencedTable;
+  let definition = `FOREIGN KEY (${foreignKey.column}) REFERENCES ${referencedTable} (${foreignKey.referencedColumn})`;
+  if (foreignKey.onDelete) {
+    definition += ` ON DELETE ${formatReferentialAction(foreignKey.onDelete)}`;
+  }
+  if (foreignKey.onUpdate) {
+    definition += ` ON UPDATE ${formatReferentialAction(foreignKey.onUpdate)}`;
+  }
+  return definition;
+}
+
+function formatReferentialAction(action: ReferentialAction): string {
+  const sql = REFERENTIAL_ACTIONS[action];
+  if (!sql) {
+    throw new Error(`Invalid referential action '${action}'`);
+  }
+  return sql;
+}
+
+export function generateAddForeignKeySQL(foreignKey: ForeignKeyDefinition, schema?: string): string {
+  const table = schema ? `${schema}.${foreignKey.table}` : foreignKey.table;
+  return `ALTER TABLE ${table} ADD CONSTRAINT ${foreignKey.name} ${generateForeignKeyDefinition(foreignKey, schema)};`;
+}
+
+// Default index name: <table>_<columns>_idx
+export function getIndexName(tableName: string, fieldsDefinition: FieldsDefinition, indexDef: IndexDefinition): string {
+  if (indexDef.name) {
+    return indexDef.name;
+  }
+  if (!indexDef.fields || indexDef.fields.length === 0) {
+    throw new Error(`Expression index on table '${tableName}' must have a name`);
+  }
+  const columns = indexDef.fields.map(field => getColumnName(field, fieldsDefinition[field]));
+  return `${tableName}_${columns.join('_')}_idx`;
+}
+
+// CREATE [UNIQUE] INDEX [CONCURRENTLY] name ON table [USING method] (columns) [WHERE predicate]
+export function generateCreateIndexSQL(
+  tableName: string,
+  fieldsDefinition: FieldsDefinition,
+  indexDef: IndexDefinition,
+  options: CreateIndexOptions = {}
+): string {
+  const { schema, concurrently = false, ifNotExists = false } = options;
+  const fullTableName = schema ? `${schema}.${tableName}` : tableName;
+  const name = getIndexName(tableName, fieldsDefinition, indexDef);
+
+  let target: string;
+  if (indexDef.expression) {
+    target = indexDef.expression;
+  } else if (indexDef.fields && indexDef.fields.length > 0) {
+    target = indexDef.fields.map(field => {
+      const fieldDef = fieldsDefinition[field];
+      if (!fieldDef) {
+        throw new Error(`Field '${field}' referenced in index '${name}' does not exist in table '${tableName}'`);
+      }
+      return getColumnName(field, fieldDef);
+    }).join(', ');
+  } else {
+    throw new Error(`Index '${name}' must have fields or an expression`);
+  }
+
+  if (indexDef.using && !INDEX_METHODS.includes(indexDef.using)) {
+    throw new Error(`Invalid index method '${indexDef.using}'`);
+  }
+
+  let sql = `CREATE ${indexDef.unique ? 'UNIQUE ' : ''}INDEX ${concurrently ? 'CONCURRENTLY ' : ''}`;
+  sql += `${ifNotExists ? 'IF NOT EXISTS ' : ''}${name} ON ${fullTableName}`;
+  if (indexDef.using) {
+    sql += ` USING ${indexDef.using}`;
+  }
+  // Expressions are wrapped in their own parentheses, as PostgreSQL requires
+  sql += indexDef.expression ? ` ((${target}))` : ` (${target})`;
+  if (indexDef.where) {
+    sql += ` WHERE ${indexDef.where}`;
+  }
+  return sql + ';';
+}
+
+export function generateDropIndexSQL(indexName: string, options: Omit<CreateIndexOptions, 'ifNotExists'> = {}): string {
+  const fullIndexName = options.schema ? `${options.schema}.${indexName}` : indexName;
+  return `DROP INDEX ${options.concurrently ? 'CONCURRENTLY ' : ''}IF EXISTS ${fullIndexName};`;
+}
+
+// Enum type name of each enum field, see resolveEnumTypes
+export function createEnumNameMap(tableName: string, fieldsDefinition: FieldsDefinition): Map<string, string> {
+  return resolveEnumTypes(tableName, fieldsDefinition).fieldTypes;
+}
+
+// Enum type names prefixed with a schema, as the types are created and dropped there
+export function qualifyEnumNameMap(enumMap: Map<string, string>, schema?: string): Map<string, string> {
+  if (!schema) {
+    return enumMap;
+  }
+  return new Map(Array.from(enumMap.entries()).map(([fieldName, enumName]) => [fieldName, `${schema}.${enumName}`]));
+}
+
+export function generateColumnDefinition(
+  columnName: string,
+  fieldDef: FieldDefinition,
+  enumMap?: Map<string, string>,
+  fieldName?: string,
+  fieldsDefinition: FieldsDefinition = {}
+): string {
   let definition = `${columnName} ${getPostgreSQLType(fieldDef, enumMap, fieldName)}`;
   
+  // Generated search vectors are computed by the database and take no default
+  if (fieldDef.type === 'tsvector' && fieldDef.generatedFrom) {
+    definition += ` GENERATED ALWAYS AS (${generateSearchVectorExpression(fieldDef, fieldsDefinition)}) STORED`;
+    return definition;
+  }
+  
   // Add NOT NULL constraint
   if (!fieldDef.nullable) {
     definition += ' NOT NULL';
@@ -140,7 +336,7 @@ export function generateColumnDefinition(columnName: string, fieldDef: FieldDefi
   
   // Add default value
   if (fieldDef.default !== undefined) {
-    definition += ` DEFAULT ${formatDefaultValue(fieldDef.default, fieldDef.type)}`;
+    definition += ` DEFAULT ${formatDefaultValue(fieldDef.default, fieldDef.type, fieldDef.elementType?.type)}`;
   }
   
   return definition;
@@ -150,18 +346,57 @@ export function getPostgreSQLType(fieldDef: FieldDefinition, enumMap?: Map<strin
   switch (fieldDef.type) {
     case 'text':
       return 'TEXT';
+    case 'varchar':
+      return fieldDef.length !== undefined ? `VARCHAR(${validateTypeModifier(fieldDef.length, 'length')})` : 'VARCHAR';
+    case 'char':
+      return `CHAR(${validateTypeModifier(fieldDef.length ?? 1, 'length')})`;
     case 'uuid':
       return 'UUID';
     case 'integer':
       return 'INTEGER';
+    case 'smallint':
+      return 'SMALLINT';
+    case 'bigint':
+      return 'BIGINT';
     case 'boolean':
       return 'BOOLEAN';
     case 'timestamp':
-      return 'TIMESTAMP WITH TIME ZONE';
+      return fieldDef.withTimezone === false ? 'TIMESTAMP' : 'TIMESTAMP WITH TIME ZONE';
+    case 'date':
+      return 'DATE';
+    case 'time':
+      return fieldDef.withTimezone ? 'TIME WITH TIME ZONE' : 'TIME';
+    case 'interval':
+      return 'INTERVAL';
     case 'decimal':
-      return 'DECIMAL';
+      if (fieldDef.precision === undefined) {
+        if (fieldDef.scale !== undefined) {
+          throw new Error('Decimal scale requires a precision');
+        }
+        return 'DECIMAL';
+      }
+      return fieldDef.scale !== undefined
+        ? `DECIMAL(${validateTypeModifier(fieldDef.precision, 'precision')}, ${validateTypeModifier(fieldDef.scale, 'scale', 0)})`
+        : `DECIMAL(${validateTypeModifier(fieldDef.precision, 'precision')})`;
+    case 'real':
+      return 'REAL';
+    case 'double':
+      return 'DOUBLE PRECISION';
+    case 'bytea':
+      return 'BYTEA';
+    case 'inet':
+      return 'INET';
+    case 'cidr':
+      return 'CIDR';
     case 'json':
       return 'JSONB';
+    case 'tsvector':
+      return 'TSVECTOR';
+    case 'array':
+      if (!fieldDef.elementType) {
+        throw new Error('Array field must have elementType defined');
+      }
+      return `${getPostgreSQLType(fieldDef.elementType)}[]`;
     case 'enum':
       if (!fieldDef.enumValues || fieldDef.enumValues.length === 0) {
         throw new Error('Enum field must have enumValues defined');
@@ -179,11 +414,91 @@ export function getPostgreSQLType(fieldDef: FieldDefinition, enumMap?: Map<strin
   }
 }
 
-export function formatDefaultValue(value: unknown, type: string): string {
+// to_tsvector over the source columns, weighted with setweight() where configured:
+// setweight(to_tsvector('english', coalesce(title, '')), 'A') || to_tsvector('english', coalesce(body, ''))
+export function generateSearchVectorExpression(fieldDef: FieldDefinition, fieldsDefinition: FieldsDefinition): string {
+  const sources = fieldDef.generatedFrom || [];
+  if (sources.length === 0) {
+    throw new Error('Generated search vector must have at least one source field');
+  }
+  
+  const language = searchLanguage(fieldDef.language);
+  return sources.map(source => {
+    const sourceDef = fieldsDefinition[source];
+    if (!sourceDef) {
+      throw new Error(`Field '${source}' referenced in search vector does not exist`);
+    }
+    const vector = `to_tsvector(${language}, coalesce(${getColumnName(source, sourceDef)}, ''))`;
+    const weight = fieldDef.weights?.[source];
+    if (!weight) {
+      return vector;
+    }
+    if (!['A', 'B', 'C', 'D'].includes(weight)) {
+      throw new Error(`Invalid search weight '${weight}' for field '${source}'`);
+    }
+    return `setweight(${vector}, '${weight}')`;
+  }).join(' || ');
+}
+
+// CHECK expression for a field's validation rules, or null when none can run in the database.
+// Email rules and custom validators are enforced by the application only, as are patterns
+// with flags other than 'i' since they have no POSIX equivalent.
+// Regex syntax JavaScript and PostgreSQL read the same way: literals, escaped punctuation,
+// anchors, bracket expressions of plain characters and ranges, groups, alternation and greedy
+// quantifiers. Escapes such as \d or \w differ, and '.' matches newlines in PostgreSQL.
+const PORTABLE_PATTERN = /^(?:[^\\[\]{}()|^$.*+?]|\\[^A-Za-z0-9]|\[\^?[^\\[\]]+\]|\((?!\?)|\(\?:|[)|^$]|[*+?](?!\?)|\{\d+(?:,\d*)?\}(?!\?))*$/;
+
+export function generateCheckExpression(columnName: string, fieldDef: FieldDefinition): string | null {
+  const checks: string[] = [];
+  if (fieldDef.minLength !== undefined) {
+    checks.push(`char_length(${columnName}) >= ${validateTypeModifier(fieldDef.minLength, 'minLength', 0)}`);
+  }
+  if (fieldDef.maxLength !== undefined) {
+    checks.push(`char_length(${columnName}) <= ${validateTypeModifier(fieldDef.maxLength, 'maxLength', 0)}`);
+  }
+  if (fieldDef.pattern) {
+    const { flags, source } = fieldDef.pattern;
+    if (!/^i?$/.test(flags)) {
+      throw new Error(`Pattern flags '${flags}' on column '${columnName}' are not supported: only 'i' can be enforced`);
+    }
+    // Other patterns are only checked by the application
+    if (PORTABLE_PATTERN.test(source)) {
+      checks.push(`${columnName} ${flags === 'i' ? '~*' : '~'} '${source.replace(/'/g, "''")}'`);
+    }
+  }
+  if (fieldDef.min !== undefined) {
+    checks.push(`${columnName} >= ${validateBound(fieldDef.min, 'min')}`);
+  }
+  if (fieldDef.max !== undefined) {
+    checks.push(`${columnName} <= ${validateBound(fieldDef.max, 'max')}`);
+  }
+  return checks.length > 0 ? checks.join(' AND ') : null;
+}
+
+function validateBound(value: number, name: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Invalid ${name} '${value}'`);
+  }
+  return value;
+}
+
+// Lengths, precisions and scales are interpolated into DDL, so they must be plain integers
+function validateTypeModifier(value: number, name: string, min: number = 1): number {
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`Invalid ${name} '${value}'`);
+  }
+  return value;
+}
+
+export function formatDefaultValue(value: unknown, type: string, elementType?: string): string {
   if (value === null) {
     return 'NULL';
   }
   
+  if (type === 'array' && Array.isArray(value)) {
+    return formatArrayLiteral(value, elementType);
+  }
+  
   if (typeof value === 'string') {
     if (type === 'uuid' && value.toLowerCase() === 'gen_random_uuid()') {
       return 'gen_random_uuid()';
@@ -191,6 +506,9 @@ export function formatDefaultValue(value: unknown, type: string): string {
     if (type === 'timestamp' && value.toLowerCase() === 'now()') {
       return 'NOW()';
     }
+    if (type === 'date' && value.toLowerCase() === 'current_date') {
+      return 'CURRENT_DATE';
+    }
     return `'${value.replace(/'/g, "''")}'`;
   }
   
@@ -198,10 +516,14 @@ export function formatDefaultValue(value: unknown, type: string): string {
     return value ? 'TRUE' : 'FALSE';
   }
   
-  if (typeof value === 'number') {
+  if (typeof value === 'number' || typeof value === 'bigint') {
     return value.toString();
   }
   
+  if (Buffer.isBuffer(value)) {
+    return `'\\x${value.toString('hex')}'`;
+  }
+  
   if (typeof value === 'object') {
     return `'${JSON.stringify(value).replace(/'/g, "''")}'`;
   }
@@ -209,61 +531,68 @@ export function formatDefaultValue(value: unknown, type: string): string {
   return `'${String(value).replace(/'/g, "''")}'`;
 }
 
-interface EnumTypeInfo {
+// PostgreSQL array literal, e.g. '{}' or '{"a","b"}'
+function formatArrayLiteral(values: unknown[], elementType?: string): string {
+  const elements = values.map(value => {
+    if (value === null) return 'NULL';
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    const text = elementType === 'json' ? JSON.stringify(value) : String(value);
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  });
+  const literal = `{${elements.join(',')}}`;
+  return `'${literal.replace(/'/g, "''")}'`;
+}
+
+export interface EnumTypeInfo {
   name: string;
   values: string[];
 }
 
+// Enum types a table needs, see resolveEnumTypes
 export function getEnumTypes(tableName: string, fieldsDefinition: FieldsDefinition): EnumTypeInfo[] {
-  const enumTypes: Map<string, string[]> = new Map();
-  const valueToName: Map<string, string> = new Map(); // Map serialized values to enum name
-  
+  return Array.from(resolveEnumTypes(tableName, fieldsDefinition).types.entries()).map(([name, values]) => ({ name, values }));
+}
+
+// The one naming strategy for enum types: a field's enumName, or <table>_<column>_enum.
+// Fields of a table without an enumName share a type when their values are the same; fields
+// in different tables share one through the same enumName, e.g. enumField(enumType(...)).
+function resolveEnumTypes(tableName: string, fieldsDefinition: FieldsDefinition): {
+  types: Map<string, string[]>;
+  fieldTypes: Map<string, string>;
+} {
+  const types = new Map<string, string[]>();
+  const fieldTypes = new Map<string, string>();
+  const valueToName = new Map<string, string>(); // Sorted values -> unnamed type with those values
+
   for (const [fieldName, fieldDef] of Object.entries(fieldsDefinition)) {
-    if (fieldDef.type === 'enum' && fieldDef.enumValues) {
-      let enumName: string;
-      
-      if (fieldDef.enumName) {
-        // Use custom enum name
-        enumName = fieldDef.enumName;
-      } else {
-        // Check if we already have an enum with the same values
-        const sortedValues = [...fieldDef.enumValues].sort();
-        const valuesKey = JSON.stringify(sortedValues);
-        const existingEnumName = valueToName.get(valuesKey);
-        
-        if (existingEnumName) {
-          // Reuse existing enum type
-          enumName = existingEnumName;
-        } else {
-          // Create new enum type with tablename_property pattern
-          enumName = `${tableName}_${fieldName}`;
-          valueToName.set(valuesKey, enumName);
-        }
-      }
-      
-      // Check if we already have this enum type
-      const existing = enumTypes.get(enumName);
-      if (existing) {
-        // Verify the values match
-        if (JSON.stringify(existing.sort()) !== JSON.stringify([...fieldDef.enumValues].sort())) {
-          throw new Error(`Enum type '${enumName}' is defined with different values in different fields`);
-        }
-      } else {
-        enumTypes.set(enumName, [...fieldDef.enumValues]);
-      }
+    if (fieldDef.type !== 'enum' || !fieldDef.enumValues) continue;
+
+    let enumName = fieldDef.enumName;
+    if (!enumName) {
+      const valuesKey = JSON.stringify([...fieldDef.enumValues].sort());
+      enumName = valueToName.get(valuesKey) ?? generateDefaultEnumTypeName(tableName, getColumnName(fieldName, fieldDef));
+      valueToName.set(valuesKey, enumName);
+    }
+
+    const existing = types.get(enumName);
+    if (existing && JSON.stringify([...existing].sort()) !== JSON.stringify([...fieldDef.enumValues].sort())) {
+      throw new Error(`Enum type '${enumName}' is defined with different values in different fields`);
+    }
+    if (!existing) {
+      types.set(enumName, [...fieldDef.enumValues]);
     }
+    fieldTypes.set(fieldName, enumName);
   }
-  
-  return Array.from(enumTypes.entries()).map(([name, values]) => ({ name, values }));
+
+  return { types, fieldTypes };
 }
 
-export function generateDefaultEnumTypeName(tableName?: string, fieldName?: string, enumValues?: string[]): string {
-  if (tableName && fieldName) {
-    // Use the tablename_property pattern
-    return `${tableName}_${fieldName}`;
+export function generateDefaultEnumTypeName(tableName?: string, columnName?: string, enumValues?: string[]): string {
+  if (tableName && columnName) {
+    return `${tableName}_${columnName}_enum`;
   }
   
-  // Fallback to the old hash-based approach if table/field names not available
+  // Fallback to the old hash-based approach if table/column names not available
   if (enumValues) {
     return generateEnumTypeName(enumValues);
   }
@@ -278,9 +607,50 @@ export function generateEnumTypeName(enumValues: string[]): string {
   return `enum_${hash}`;
 }
 
+// CREATE TYPE has no IF NOT EXISTS, so an existing type is accepted through its error
+// when it has the same values; tables sharing a type can then each create it. A type with
+// other values raises an error instead of being kept as it is.
 export function generateCreateEnumSQL(enumName: string, enumValues: string[]): string {
-  const values = enumValues.map(value => `'${value.replace(/'/g, "''")}'`).join(', ');
-  return `CREATE TYPE ${enumName} AS ENUM (${values});`;
+  const values = enumValues.map(quoteEnumValue).join(', ');
+  const existing = `enum_range(NULL::${enumName})::text[]`;
+  const expected = `ARRAY[${values}]::text[]`;
+  return [
+    'DO $$ BEGIN',
+    `  CREATE TYPE ${enumName} AS ENUM (${values});`,
+    'EXCEPTION WHEN duplicate_object THEN',
+    `  IF NOT (${existing} @> ${expected} AND ${existing} <@ ${expected}) THEN`,
+    `    RAISE EXCEPTION 'Enum type ${enumName.replace(/'/g, "''")} already exists with values %, expected %', ${existing}, ${expected};`,
+    '  END IF;',
+    'END $$;'
+  ].join('\n');
+}
+
+export interface AddEnumValueOptions {
+  before?: string; // Place the value before an existing one instead of at the end
+  after?: string; // Or after one
+  ifNotExists?: boolean;
+}
+
+// ALTER TYPE status ADD VALUE 'archived' AFTER 'published'
+export function generateAddEnumValueSQL(enumName: string, value: string, options: AddEnumValueOptions = {}): string {
+  if (options.before !== undefined && options.after !== undefined) {
+    throw new Error(`Enum value '${value}' cannot be placed both before and after another value`);
+  }
+  let sql = `ALTER TYPE ${enumName} ADD VALUE ${options.ifNotExists ? 'IF NOT EXISTS ' : ''}${quoteEnumValue(value)}`;
+  if (options.before !== undefined) {
+    sql += ` BEFORE ${quoteEnumValue(options.before)}`;
+  } else if (options.after !== undefined) {
+    sql += ` AFTER ${quoteEnumValue(options.after)}`;
+  }
+  return sql + ';';
+}
+
+export function generateRenameEnumValueSQL(enumName: string, from: string, to: string): string {
+  return `ALTER TYPE ${enumName} RENAME VALUE ${quoteEnumValue(from)} TO ${quoteEnumValue(to)};`;
+}
+
+function quoteEnumValue(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
 }
 
 export function generateDropEnumSQL(enumName: string): string {
@@ -0,0 +1,680 @@
+import { FieldDefinition, IndexDefinition, QueryExecutor, getColumnName } from "../types";
+import { ModelConfiguration, separateFieldsAndRelations } from "./modelRegistry";
+import { MIGRATIONS_TABLE } from "./migrationRunner";
+import {
+  DatabaseSchema,
+  IntrospectedColumn,
+  IntrospectedConstraint,
+  IntrospectedIndex,
+  IntrospectedTable,
+  introspectDatabase,
+} from "./introspection";
+import {
+  ForeignKeyDefinition,
+  createEnumNameMap,
+  formatDefaultValue,
+  generateAddEnumValueSQL,
+  generateCheckExpression,
+  generateColumnDefinition,
+  generateCreateEnumSQL,
+  generateCreateIndexSQL,
+  generateCreateTableSQL,
+  generateDropIndexSQL,
+  generateForeignKeyDefinition,
+  getEnumTypes,
+  getForeignKeys,
+  getIndexName,
+  getPostgreSQLType,
+  qualifyEnumNameMap,
+} from "./schema";
+
+export type SchemaOperationType =
+  | "createEnum"
+  | "addEnumValue"
+  | "recreateEnum"
+  | "createTable"
+  | "addColumn"
+  | "alterColumnType"
+  | "setDefault"
+  | "dropDefault"
+  | "dropNotNull"
+  | "setNotNull"
+  | "dropConstraint"
+  | "dropIndex"
+  | "dropColumn"
+  | "addConstraint"
+  | "createIndex"
+  | "dropTable";
+
+// One DDL statement; destructive operations can lose data and deserve review
+export interface SchemaOperation {
+  type: SchemaOperationType;
+  table?: string; // Unset for enum type operations
+  sql: string;
+  description: string;
+  destructive: boolean;
+}
+
+// Values to add to an existing enum type, each placed next to its neighbour in the model,
+// and values the model no longer has
+export interface EnumValueDiff {
+  added: Array<{ value: string; before?: string; after?: string }>;
+  removed: string[];
+}
+
+export interface SchemaDiffOptions {
+  schema?: string; // Defaults to 'public'
+  dropUnknownTables?: boolean; // Drop tables no model defines (default false)
+  ignoreTables?: string[]; // Tables never created, altered or dropped, besides querio_migrations
+}
+
+// Operations run in this order: types before the tables using them, new columns before
+// constraints on them, and drops of constraints before the columns they cover
+const OPERATION_ORDER: SchemaOperationType[] = [
+  "createEnum",
+  "addEnumValue",
+  "recreateEnum",
+  "createTable",
+  "addColumn",
+  "alterColumnType",
+  "setDefault",
+  "dropDefault",
+  "dropNotNull",
+  "setNotNull",
+  "dropConstraint",
+  "dropIndex",
+  "dropColumn",
+  "addConstraint",
+  "createIndex",
+  "dropTable",
+];
+
+// Introspect the database and list the operations that bring it in line with the models
+export async function diffSchema(
+  models: ModelConfiguration[],
+  executor: QueryExecutor,
+  options: SchemaDiffOptions = {}
+): Promise<SchemaOperation[]> {
+  const database = await introspectDatabase(
+    executor,
+    options.schema ? { schema: options.schema } : {}
+  );
+  return compareSchema(models, database, options);
+}
+
+// Compare models with an introspected schema, without touching the database
+export function compareSchema(
+  models: ModelConfiguration[],
+  database: DatabaseSchema,
+  options: SchemaDiffOptions = {}
+): SchemaOperation[] {
+  const { schema, dropUnknownTables = false } = options;
+  const ignoreTables = [MIGRATIONS_TABLE, ...(options.ignoreTables || [])];
+  const qualify = (name: string) => qualifyName(name, schema);
+  const operations: SchemaOperation[] = [];
+  const add = (operation: SchemaOperation) => operations.push(operation);
+  const managedModels = models.filter(
+    (model) => !ignoreTables.includes(model.table)
+  );
+
+  // Enum types, shared by every field that maps to the same type name
+  const expectedEnums = new Map<string, string[]>();
+  for (const model of managedModels) {
+    const { actualFields } = separateFieldsAndRelations(model.fields);
+    for (const enumType of getEnumTypes(model.table, actualFields)) {
+      const values = expectedEnums.get(enumType.name);
+      if (values && [...values].sort().join(",") !== [...enumType.values].sort().join(",")) {
+        throw new Error(`Enum type '${enumType.name}' is defined with different values in different models`);
+      }
+      expectedEnums.set(enumType.name, values ?? enumType.values);
+    }
+  }
+  expectedEnums.forEach((values, enumName) => {
+    const existing = database.enums[enumName];
+    if (!existing) {
+      add({
+        type: "createEnum",
+        sql: generateCreateEnumSQL(qualify(enumName), values),
+        description: `Create enum type '${enumName}'`,
+        destructive: false,
+      });
+      return;
+    }
+    const { added, removed } = diffEnumValues(values, existing);
+    if (removed.length > 0) {
+      add(recreateEnumOperation(enumName, values, removed, database, schema));
+      return;
+    }
+    added.forEach(({ value, ...position }) => {
+      add({
+        type: "addEnumValue",
+        sql: generateAddEnumValueSQL(qualify(enumName), value, position),
+        description: `Add value '${value}' to enum type '${enumName}'`,
+        destructive: false,
+      });
+    });
+  });
+
+  for (const model of managedModels) {
+    const existing = database.tables[model.table];
+    if (existing) {
+      diffTable(model, existing, schema, add);
+      continue;
+    }
+    add({
+      type: "createTable",
+      table: model.table,
+      sql: generateCreateTableSQL(
+        model.table,
+        model.fields,
+        { includeEnums: false, ...(schema && { schema }) },
+        model.constraints
+      ),
+      description: `Create table '${model.table}'`,
+      destructive: false,
+    });
+    for (const index of model.indexes || []) {
+      add(createIndexOperation(model, index, schema));
+    }
+  }
+
+  // Foreign keys may point at tables created above, so they are added in a later phase
+  const managedTables = new Set(managedModels.map((model) => model.table));
+  const expectedForeignKeys = new Set<string>();
+  for (const model of managedModels) {
+    for (const foreignKey of getForeignKeys(model.table, model.fields, model.relations)) {
+      if (!managedTables.has(foreignKey.table) || expectedForeignKeys.has(foreignKey.name)) {
+        continue;
+      }
+      expectedForeignKeys.add(foreignKey.name);
+      // A foreign key whose target or actions changed is dropped and added again
+      const current = database.tables[foreignKey.table]?.constraints.find(
+        (constraint) => constraint.name === foreignKey.name
+      );
+      if (current && sameForeignKey(current, foreignKey)) {
+        continue;
+      }
+      if (current) {
+        add(dropConstraintOperation(foreignKey.table, foreignKey.name, schema));
+      }
+      add({
+        type: "addConstraint",
+        table: foreignKey.table,
+        sql: `ALTER TABLE ${qualify(foreignKey.table)} ADD CONSTRAINT ${foreignKey.name} ${generateForeignKeyDefinition(foreignKey, schema)};`,
+        description: `${current ? "Replace" : "Add"} foreign key '${foreignKey.name}' on '${foreignKey.table}'`,
+        destructive: false,
+      });
+    }
+  }
+  // Foreign keys from custom constraints are kept; diffTable() adds them by name
+  for (const model of managedModels) {
+    const customNames = (model.constraints?.custom || []).map((custom) => custom.name);
+    database.tables[model.table]?.constraints
+      .filter(
+        (constraint) =>
+          constraint.type === "foreign" &&
+          !expectedForeignKeys.has(constraint.name) &&
+          !customNames.includes(constraint.name)
+      )
+      .forEach((constraint) => add(dropConstraintOperation(model.table, constraint.name, schema, true)));
+  }
+
+  if (dropUnknownTables) {
+    Object.keys(database.tables)
+      .filter((table) => !managedTables.has(table) && !ignoreTables.includes(table))
+      .forEach((table) => {
+        add({
+          type: "dropTable",
+          table,
+          sql: `DROP TABLE ${qualify(table)};`,
+          description: `Drop table '${table}'`,
+          destructive: true,
+        });
+      });
+  }
+
+  return operations
+    .map((operation, position) => ({ operation, position }))
+    .sort(
+      (a, b) =>
+        OPERATION_ORDER.indexOf(a.operation.type) - OPERATION_ORDER.indexOf(b.operation.type) ||
+        a.position - b.position
+    )
+    .map(({ operation }) => operation);
+}
+
+// Compare the values of a model's enum type with the values in the database
+export function diffEnumValues(expected: string[], existing: string[]): EnumValueDiff {
+  const added: EnumValueDiff["added"] = [];
+  expected.forEach((value, index) => {
+    if (existing.includes(value)) {
+      return;
+    }
+    // The previous value is in the type by now, added earlier if it was new
+    if (index > 0) {
+      added.push({ value, after: expected[index - 1] as string });
+      return;
+    }
+    const next = expected.find((candidate) => existing.includes(candidate));
+    added.push(next === undefined ? { value } : { value, before: next });
+  });
+  return { added, removed: existing.filter((value) => !expected.includes(value)) };
+}
+
+// PostgreSQL cannot drop a value from an enum type, so the type is replaced: the old one is
+// renamed, the new one created and every column using it converted. Rows holding a removed
+// value make the conversion fail.
+function recreateEnumOperation(
+  enumName: string,
+  values: string[],
+  removed: string[],
+  database: DatabaseSchema,
+  schema: string | undefined
+): SchemaOperation {
+  const qualifiedName = qualifyName(enumName, schema);
+  const oldName = `${enumName}_old`;
+  const statements = [
+    `ALTER TYPE ${qualifiedName} RENAME TO ${oldName};`,
+    generateCreateEnumSQL(qualifiedName, values),
+  ];
+  for (const [table, existing] of Object.entries(database.tables)) {
+    const alter = `ALTER TABLE ${qualifyName(table, schema)}`;
+    for (const column of existing.columns) {
+      const arraySuffix = normalizeType(column.dataType).match(/(\[\])*$/)?.[0] || "";
+      if (normalizeType(column.dataType) !== enumName + arraySuffix) continue;
+      // Defaults do not cast automatically; one naming a removed value is left to the diff of the column
+      const keepDefault =
+        column.default !== null &&
+        !removed.some((value) => normalizeDefault(column.default) === `'${value.replace(/'/g, "''")}'`);
+      if (column.default !== null) {
+        statements.push(`${alter} ALTER COLUMN ${column.name} DROP DEFAULT;`);
+      }
+      statements.push(
+        `${alter} ALTER COLUMN ${column.name} TYPE ${qualifiedName}${arraySuffix} USING ${column.name}::text::${qualifiedName}${arraySuffix};`
+      );
+      if (keepDefault) {
+        statements.push(`${alter} ALTER COLUMN ${column.name} SET DEFAULT ${column.default};`);
+      }
+    }
+  }
+  statements.push(`DROP TYPE ${qualifyName(oldName, schema)};`);
+  return {
+    type: "recreateEnum",
+    sql: statements.join("\n"),
+    description: `Recreate enum type '${enumName}' without ${removed.map((value) => `'${value}'`).join(", ")} (fails while rows hold them)`,
+    destructive: true,
+  };
+}
+
+// Columns, unique and check constraints and indexes of a table that already exists
+function diffTable(
+  model: ModelConfiguration,
+  existing: IntrospectedTable,
+  schema: string | undefined,
+  add: (operation: SchemaOperation) => void
+): void {
+  const table = model.table;
+  const alter = `ALTER TABLE ${qualifyName(table, schema)}`;
+  const { actualFields } = separateFieldsAndRelations(model.fields);
+  const enumMap = qualifyEnumNameMap(createEnumNameMap(table, actualFields), schema);
+  const columns = new Map(existing.columns.map((column) => [column.name, column]));
+  const expectedColumns = new Set<string>();
+
+  for (const [fieldName, fieldDef] of Object.entries(actualFields)) {
+    const columnName = getColumnName(fieldName, fieldDef);
+    expectedColumns.add(columnName);
+    const column = columns.get(columnName);
+    if (!column) {
+      add({
+        type: "addColumn",
+        table,
+        sql: `${alter} ADD COLUMN ${generateColumnDefinition(columnName, fieldDef, enumMap, fieldName, actualFields)};`,
+        description: `Add column '${table}.${columnName}'`,
+        destructive: false,
+      });
+      continue;
+    }
+    diffColumn(table, alter, columnName, fieldDef, column, getPostgreSQLType(fieldDef, enumMap, fieldName), add);
+  }
+
+  existing.columns
+    .filter((column) => !expectedColumns.has(column.name))
+    .forEach((column) => {
+      add({
+        type: "dropColumn",
+        table,
+        sql: `${alter} DROP COLUMN ${column.name};`,
+        description: `Drop column '${table}.${column.name}'`,
+        destructive: true,
+      });
+    });
+
+  // Unique constraints are matched by their columns, since unnamed ones get generated names
+  const expectedUniques: { name: string; columns: string[] }[] = [];
+  for (const [fieldName, fieldDef] of Object.entries(actualFields)) {
+    if (fieldDef.unique && !fieldDef.primaryKey) {
+      const columnName = getColumnName(fieldName, fieldDef);
+      expectedUniques.push({ name: `${table}_${columnName}_key`, columns: [columnName] });
+    }
+  }
+  for (const unique of model.constraints?.unique || []) {
+    const uniqueColumns = unique.fields.map((field) => getColumnName(field, actualFields[field]));
+    expectedUniques.push({
+      name: unique.name || `${table}_${uniqueColumns.join("_")}_key`,
+      columns: uniqueColumns,
+    });
+  }
+  const existingUniques = existing.constraints.filter((constraint) => constraint.type === "unique");
+  const sameColumns = (a: string[], b: string[]) => a.join(",") === b.join(",");
+  expectedUniques
+    .filter((unique) => !existingUniques.some((constraint) => sameColumns(constraint.columns, unique.columns)))
+    .forEach((unique) => {
+      add({
+        type: "addConstraint",
+        table,
+        sql: `${alter} ADD CONSTRAINT ${unique.name} UNIQUE (${unique.columns.join(", ")});`,
+        description: `Add unique constraint '${unique.name}' on '${table}'`,
+        destructive: false,
+      });
+    });
+  // Custom constraints other than checks are matched by name only
+  const customConstraints = model.constraints?.custom || [];
+  customConstraints
+    .filter((custom) => !/^check\b/i.test(custom.definition.trim()))
+    .filter((custom) => !existing.constraints.some((constraint) => constraint.name === custom.name))
+    .forEach((custom) => {
+      add({
+        type: "addConstraint",
+        table,
+        sql: `${alter} ADD CONSTRAINT ${custom.name} ${custom.definition};`,
+        description: `Add constraint '${custom.name}' on '${table}'`,
+        destructive: false,
+      });
+    });
+  existingUniques
+    .filter((constraint) => !expectedUniques.some((unique) => sameColumns(constraint.columns, unique.columns)))
+    .filter((constraint) => !customConstraints.some((custom) => custom.name === constraint.name))
+    .forEach((constraint) => add(dropConstraintOperation(table, constraint.name, schema, true)));
+
+  // Check constraints are matched by name, and replaced when their definition changed
+  const expectedChecks: { name: string; definition: string }[] = [];
+  for (const [fieldName, fieldDef] of Object.entries(actualFields)) {
+    const columnName = getColumnName(fieldName, fieldDef);
+    const expression = generateCheckExpression(columnName, fieldDef);
+    if (expression) {
+      expectedChecks.push({ name: `${table}_${columnName}_check`, definition: `CHECK (${expression})` });
+    }
+  }
+  for (const custom of customConstraints) {
+    if (/^check\b/i.test(custom.definition.trim())) {
+      expectedChecks.push({ name: custom.name, definition: custom.definition });
+    }
+  }
+  const existingChecks = existing.constraints.filter((constraint) => constraint.type === "check");
+  for (const check of expectedChecks) {
+    const current = existingChecks.find((constraint) => constraint.name === check.name);
+    if (current && normalizeCheck(current.definition) === normalizeCheck(check.definition)) {
+      continue;
+    }
+    if (current) {
+      add(dropConstraintOperation(table, check.name, schema));
+    }
+    add({
+      type: "addConstraint",
+      table,
+      sql: `${alter} ADD CONSTRAINT ${check.name} ${check.definition};`,
+      description: `${current ? "Replace" : "Add"} check constraint '${check.name}' on '${table}' (fails while rows violate it)`,
+      destructive: false,
+    });
+  }
+  existingChecks
+    .filter((constraint) => !expectedChecks.some((check) => check.name === constraint.name))
+    .forEach((constraint) => add(dropConstraintOperation(table, constraint.name, schema)));
+
+  // Declared indexes are matched by name, and replaced when their definition changed;
+  // indexes backing constraints are left alone
+  const dropIndex = (indexName: string): SchemaOperation => ({
+    type: "dropIndex",
+    table,
+    sql: generateDropIndexSQL(indexName, schema ? { schema } : {}),
+    description: `Drop index '${indexName}' on '${table}'`,
+    destructive: false,
+  });
+  const expectedIndexes = new Set<string>();
+  for (const index of model.indexes || []) {
+    const indexName = getIndexName(table, model.fields, index);
+    expectedIndexes.add(indexName);
+    const current = existing.indexes.find((existingIndex) => existingIndex.name === indexName);
+    if (current && sameIndex(current, index, actualFields)) {
+      continue;
+    }
+    if (current) {
+      add(dropIndex(indexName));
+    }
+    add(createIndexOperation(model, index, schema));
+  }
+  existing.indexes
+    .filter((index) => !index.constraint && !index.primary && !expectedIndexes.has(index.name))
+    .forEach((index) => add(dropIndex(index.name)));
+}
+
+// Type, nullability and default of an existing column
+function diffColumn(
+  table: string,
+  alter: string,
+  columnName: string,
+  fieldDef: FieldDefinition,
+  column: IntrospectedColumn,
+  expectedType: string,
+  add: (operation: SchemaOperation) => void
+): void {
+  const target = `'${table}.${columnName}'`;
+  if (normalizeType(expectedType) !== normalizeType(column.dataType)) {
+    add({
+      type: "alterColumnType",
+      table,
+      sql: `${alter} ALTER COLUMN ${columnName} TYPE ${expectedType} USING ${columnName}::${expectedType};`,
+      description: `Change type of ${target} from ${column.dataType} to ${expectedType}`,
+      destructive: true,
+    });
+  }
+
+  // Generated columns have no default and are nullable by definition
+  if (column.generated || (fieldDef.type === "tsvector" && fieldDef.generatedFrom)) {
+    return;
+  }
+
+  const nullable = !!fieldDef.nullable && !fieldDef.primaryKey;
+  if (nullable && !column.nullable) {
+    add({
+      type: "dropNotNull",
+      table,
+      sql: `${alter} ALTER COLUMN ${columnName} DROP NOT NULL;`,
+      description: `Make ${target} nullable`,
+      destructive: false,
+    });
+  } else if (!nullable && column.nullable) {
+    add({
+      type: "setNotNull",
+      table,
+      sql: `${alter} ALTER COLUMN ${columnName} SET NOT NULL;`,
+      description: `Make ${target} NOT NULL (fails while the column holds nulls)`,
+      destructive: false,
+    });
+  }
+
+  // Sequence defaults of serial and identity columns are not modelled
+  if (column.default?.startsWith("nextval(")) {
+    return;
+  }
+  const expectedDefault =
+    fieldDef.default === undefined
+      ? null
+      : formatDefaultValue(fieldDef.default, fieldDef.type, fieldDef.elementType?.type);
+  const normalize = fieldDef.type === "json" ? normalizeJsonDefault : normalizeDefault;
+  if (normalize(expectedDefault) === normalize(column.default)) {
+    return;
+  }
+  if (expectedDefault === null) {
+    add({
+      type: "dropDefault",
+      table,
+      sql: `${alter} ALTER COLUMN ${columnName} DROP DEFAULT;`,
+      description: `Drop default of ${target}`,
+      destructive: false,
+    });
+  } else {
+    add({
+      type: "setDefault",
+      table,
+      sql: `${alter} ALTER COLUMN ${columnName} SET DEFAULT ${expectedDefault};`,
+      description: `Set default of ${target} to ${expectedDefault}`,
+      destructive: false,
+    });
+  }
+}
+
+function createIndexOperation(
+  model: ModelConfiguration,
+  index: IndexDefinition,
+  schema: string | undefined
+): SchemaOperation {
+  const indexName = getIndexName(model.table, model.fields, index);
+  return {
+    type: "createIndex",
+    table: model.table,
+    sql: generateCreateIndexSQL(model.table, model.fields, index, schema ? { schema } : {}),
+    description: `Create index '${indexName}' on '${model.table}'`,
+    destructive: false,
+  };
+}
+
+// Dropping a unique or foreign key constraint the model no longer has is destructive: the
+// constraint may come from outside the models and nothing adds it back
+function dropConstraintOperation(
+  table: string,
+  constraintName: string,
+  schema: string | undefined,
+  destructive = false
+): SchemaOperation {
+  return {
+    type: "dropConstraint",
+    table,
+    sql: `ALTER TABLE ${qualifyName(table, schema)} DROP CONSTRAINT ${constraintName};`,
+    description: `Drop constraint '${constraintName}' on '${table}'`,
+    destructive,
+  };
+}
+
+// Target and referential actions of an existing foreign key; NO ACTION is the default
+function sameForeignKey(constraint: IntrospectedConstraint, foreignKey: ForeignKeyDefinition): boolean {
+  return (
+    constraint.type === "foreign" &&
+    constraint.columns.join(",") === foreignKey.column &&
+    constraint.referencedTable === foreignKey.referencedTable &&
+    (constraint.referencedColumns || []).join(",") === foreignKey.referencedColumn &&
+    (constraint.onDelete ?? "noAction") === (foreignKey.onDelete ?? "noAction") &&
+    (constraint.onUpdate ?? "noAction") === (foreignKey.onUpdate ?? "noAction")
+  );
+}
+
+// Uniqueness, method, columns and predicate of an existing index; the text of an expression
+// index is not compared, as pg_get_indexdef() rewrites it
+function sameIndex(existing: IntrospectedIndex, index: IndexDefinition, fields: Record<string, FieldDefinition>): boolean {
+  const columns = index.expression
+    ? []
+    : (index.fields || []).map((field) => getColumnName(field, fields[field]));
+  return (
+    existing.unique === !!index.unique &&
+    existing.method === (index.using ?? "btree") &&
+    existing.columns.join(",") === columns.join(",") &&
+    normalizeCheck(existing.predicate ?? "") === normalizeCheck(index.where ?? "")
+  );
+}
+
+function qualifyName(name: string, schema: string | undefined): string {
+  return schema ? `${schema}.${name}` : name;
+}
+
+// Compare generated DDL types with format_type() output, e.g. DECIMAL(10, 2) and numeric(10,2)
+function normalizeType(type: string): string {
+  const normalized = type
+    .toLowerCase()
+    .replace(/"/g, "")
+    .replace(/\s*,\s*/g, ",")
+    .replace(/\s+/g, " ")
+    .trim();
+  const arraySuffix = normalized.match(/(\[\])*$/)?.[0] || "";
+  const base = normalized
+    .slice(0, normalized.length - arraySuffix.length)
+    .replace(/^[a-z_][a-z0-9_]*\.(?=[a-z_])/, "") // Schema-qualified enum types
+    .replace(/^decimal/, "numeric")
+    .replace(/^varchar/, "character varying")
+    .replace(/^char\b/, "character")
+    .replace(/^(timestamp|time)$/, "$1 without time zone");
+  return base + arraySuffix;
+}
+
+// Compare a generated default with pg_get_expr() output, e.g. 'active' and 'active'::status_enum
+function normalizeDefault(expression: string | null): string | null {
+  if (expression === null) {
+    return null;
+  }
+  let normalized = expression.trim();
+  let previous: string;
+  do {
+    previous = normalized;
+    normalized = normalized.replace(/::[a-z_][\w ."]*(\(\d+(,\s*\d+)?\))?(\[\])*$/i, "").trim();
+  } while (normalized !== previous);
+
+  // Negative numbers come back as '-1'::integer or (-1)
+  const numeric = normalized.match(/^\(?'?(-?\d+(\.\d+)?)'?\)?$/);
+  if (numeric) {
+    return numeric[1] as string;
+  }
+  return normalized.startsWith("'") ? normalized : normalized.toLowerCase();
+}
+
+// jsonb defaults come back with keys reordered and spaces added, e.g. '{"b": 1, "a": 2}'::jsonb,
+// so JSON literals are compared by their parsed value
+function normalizeJsonDefault(expression: string | null): string | null {
+  const normalized = normalizeDefault(expression);
+  const literal = normalized?.match(/^'([\s\S]*)'$/);
+  if (!literal) {
+    return normalized;
+  }
+  try {
+    return canonicalJson(JSON.parse((literal[1] as string).replace(/''/g, "'")));
+  } catch {
+    return normalized;
+  }
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Casts such as ::text, ::character varying(32) or ::numeric[]
+const CAST_PATTERN = /::\s*[a-z_][a-z0-9_]*(\s+(varying|precision|with(out)?\s+time\s+zone))?(\(\d+(,\s*\d+)?\))?(\[\])*/gi;
+
+// Compare a generated CHECK with pg_get_constraintdef() output, e.g. CHECK (age >= '-1'::integer)
+// and CHECK ((age >= '-1'::integer)): casts, parentheses, whitespace and case outside string
+// literals are ignored, as are quotes around numbers
+function normalizeCheck(definition: string): string {
+  return definition
+    .split(/('(?:[^']|'')*')/)
+    .map((part, index) => {
+      if (index % 2 === 1) {
+        return /^'-?\d+(\.\d+)?'$/.test(part) ? part.slice(1, -1) : part;
+      }
+      return part.replace(CAST_PATTERN, "").replace(/[()\s]/g, "").toLowerCase();
+    })
+    .join("");
+}
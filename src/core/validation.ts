@@ -0,0 +1,93 @@
+import { FieldDefinition, FieldsDefinition } from '../types';
+import { JsonSetExpression } from '../builder/json';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Per-field messages, keyed by field name; records of a bulk insert are keyed as '<index>.<field>'
+export type ValidationErrors = Record<string, string[]>;
+
+// Thrown before a write when values break their fields' validation rules
+export class ValidationError extends Error {
+  constructor(readonly errors: ValidationErrors) {
+    super(
+      `Validation failed: ${Object.entries(errors)
+        .map(([field, messages]) => `${field} ${messages.join(', ')}`)
+        .join('; ')}`
+    );
+    this.name = 'ValidationError';
+  }
+}
+
+// Check one value against its field's rules. Null and undefined are left to the
+// column's nullability, and jsonSet() updates are not checked.
+export function validateFieldValue(value: unknown, fieldDef: FieldDefinition): string[] {
+  if (value === null || value === undefined || value instanceof JsonSetExpression) {
+    return [];
+  }
+
+  const messages: string[] = [];
+  if (typeof value === 'string') {
+    if (fieldDef.minLength !== undefined && value.length < fieldDef.minLength) {
+      messages.push(`must be at least ${fieldDef.minLength} characters`);
+    }
+    if (fieldDef.maxLength !== undefined && value.length > fieldDef.maxLength) {
+      messages.push(`must be at most ${fieldDef.maxLength} characters`);
+    }
+    if (fieldDef.pattern) {
+      fieldDef.pattern.lastIndex = 0;
+      if (!fieldDef.pattern.test(value)) {
+        messages.push('does not match the required pattern');
+      }
+    }
+    if (fieldDef.email && !EMAIL_PATTERN.test(value)) {
+      messages.push('must be a valid email address');
+    }
+  }
+
+  if (fieldDef.min !== undefined || fieldDef.max !== undefined) {
+    // bigint compares with numbers directly; decimal classes through their numeric value
+    const numeric = typeof value === 'bigint' ? value : Number(value);
+    if (fieldDef.min !== undefined && numeric < fieldDef.min) {
+      messages.push(`must be at least ${fieldDef.min}`);
+    }
+    if (fieldDef.max !== undefined && numeric > fieldDef.max) {
+      messages.push(`must be at most ${fieldDef.max}`);
+    }
+  }
+
+  const validators = fieldDef.validate === undefined ? [] : [fieldDef.validate].flat();
+  for (const validator of validators) {
+    const result = validator(value);
+    if (result === false) {
+      messages.push('is invalid');
+    } else if (typeof result === 'string') {
+      messages.push(result);
+    }
+  }
+
+  return messages;
+}
+
+// Check the fields present in data; missing fields are not required here
+export function validateFields(data: Record<string, any>, fieldsDefinition: FieldsDefinition, keyPrefix: string = ''): ValidationErrors {
+  const errors: ValidationErrors = {};
+  for (const [field, value] of Object.entries(data)) {
+    const fieldDef = fieldsDefinition[field];
+    if (!fieldDef || !fieldDef.type) continue;
+    const messages = validateFieldValue(value, fieldDef);
+    if (messages.length > 0) {
+      errors[`${keyPrefix}${field}`] = messages;
+    }
+  }
+  return errors;
+}
+
+// Throw a ValidationError collecting every failure of a record, or of each record in a list
+export function assertValid(data: Record<string, any> | Record<string, any>[], fieldsDefinition: FieldsDefinition): void {
+  const errors: ValidationErrors = Array.isArray(data)
+    ? Object.assign({}, ...data.map((record, index) => validateFields(record, fieldsDefinition, `${index}.`)))
+    : validateFields(data, fieldsDefinition);
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(errors);
+  }
+}
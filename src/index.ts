@@ -5,10 +5,22 @@ export * from "./core/relations";
 export * from "./core/modelRegistry";
 export * from "./core/schema";
 export * from "./core/migration";
+export * from "./core/migrationRunner";
+export * from "./core/codecs";
+export * from "./core/validation";
+export * from "./core/introspection";
+export * from "./core/schemaDiff";
+export * from "./core/modelGenerator";
 export * from "./types";
 
 // Builder exports
 export * from "./builder/QueryBuilder";
+export * from "./builder/aggregates";
+export * from "./builder/references";
+export * from "./builder/sql";
+export * from "./builder/windows";
+export * from "./builder/json";
+export * from "./builder/search";
 
 // Repository exports
 export * from "./repository/Repository";
@@ -29,12 +41,30 @@ export {
   boolean,
   timestamp,
   decimal,
+  varchar,
+  char,
+  smallint,
+  bigint,
+  real,
+  double,
+  date,
+  time,
+  interval,
+  bytea,
+  inet,
+  cidr,
   json,
+  array,
+  tsvector,
   enumField,
+  enumType,
+  EnumType,
   nullable,
   uniqueConstraint,
   customConstraint,
   createConstraints,
+  index,
+  expressionIndex,
 } from "./core/fields";
 
 // Logging functions
@@ -50,11 +80,16 @@ export type {
   InferEntityType,
   InferFieldType,
   InferNullableFieldType,
+  FieldCodec,
 } from "./types";
 
 export { createRepository } from "./repository/Repository";
 
 export { PostgreSQLAdapter } from "./adapters/postgres";
 
+// CLI configuration (querio.config.ts)
+export { defineConfig } from "./cli/config";
+export type { QuerioConfig } from "./cli/config";
+
 // Version
 export const version = "1.0.0";
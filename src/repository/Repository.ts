@@ -8,9 +8,20 @@ import {
   FindOptions,
   FindOneOptions,
   FindPaginatedOptions,
+  FindCursorPaginatedOptions,
+  CursorPaginationInput,
+  CursorPaginationResult,
   RelationLoadOptions,
+  UpsertOptions,
+  QueryOperation,
+  SQLQuery,
+  ExplainOptions,
+  ExplainPlan,
+  OrderByExpression,
+  getPrimaryKeyField,
 } from "../types";
 import { QueryBuilder, SelectQueryBuilder } from "../builder/QueryBuilder";
+import { GroupedBy } from "../builder/aggregates";
 import { ModelInstance } from "../core/model";
 import {
   getModelTable,
@@ -18,6 +29,7 @@ import {
   getRegisteredModel,
 } from "../core/modelRegistry";
 import { Relation } from "../core/relations";
+import { paginateByCursor } from "./cursorPagination";
 
 export type ScopeFunction<T> = (qb: QueryBuilder<T>) => QueryBuilder<T>;
 export type ScopeFactory<T> = (...args: any[]) => ScopeFunction<T>;
@@ -52,43 +64,43 @@ export class Repository<T = any, S extends RepositoryScopes<T> = any> {
 
   // Create a new scoped query builder with proper typing
   get scoped(): EnhancedScopedQueryBuilder<T, S> {
-    const baseQueryBuilder = new QueryBuilder<T>(
-      this.model.table,
-      this.executor
-    );
+    const baseQueryBuilder = this.createQueryBuilder();
     return new ScopedQueryBuilder(
       baseQueryBuilder,
       this.scopes
     ) as EnhancedScopedQueryBuilder<T, S>;
   }
 
+  // Create a query builder bound to this model's table and field definitions
+  private createQueryBuilder(): QueryBuilder<T> {
+    return new QueryBuilder<T>(
+      this.model.table,
+      this.executor,
+      this.model.fields
+    );
+  }
+
   // Direct access to query builder methods (more reliable than model methods)
   where(condition: WhereCondition<T>): QueryBuilder<T> {
-    return new QueryBuilder<T>(this.model.table, this.executor).where(
-      condition
-    );
+    return this.createQueryBuilder().where(condition);
   }
 
   orWhere(condition: WhereCondition<T>): QueryBuilder<T> {
-    return new QueryBuilder<T>(this.model.table, this.executor).orWhere(
-      condition
-    );
+    return this.createQueryBuilder().orWhere(condition);
   }
 
-  groupBy(...fields: (keyof T)[]): QueryBuilder<T> {
-    return new QueryBuilder<T>(this.model.table, this.executor).groupBy(
-      ...fields
-    );
+  groupBy<K extends keyof T>(...fields: K[]): QueryBuilder<T> & GroupedBy<K> {
+    return this.createQueryBuilder().groupBy(...fields);
   }
 
-  addGroupBy(...fields: (keyof T)[]): QueryBuilder<T> {
-    return new QueryBuilder<T>(this.model.table, this.executor).addGroupBy(
-      ...fields
-    );
+  addGroupBy<K extends keyof T>(
+    ...fields: K[]
+  ): QueryBuilder<T> & GroupedBy<K> {
+    return this.createQueryBuilder().addGroupBy(...fields);
   }
 
   select<S extends SelectFields<T>>(fields: S): SelectQueryBuilder<T, S> {
-    return new QueryBuilder<T>(this.model.table, this.executor).select(fields);
+    return this.createQueryBuilder().select(fields);
   }
 
   // Enhanced getMany with options
@@ -119,7 +131,7 @@ export class Repository<T = any, S extends RepositoryScopes<T> = any> {
     limit?: number;
     offset?: number;
   }): Promise<T[] | SelectedType<T, S>[]> {
-    let qb = new QueryBuilder<T>(this.model.table, this.executor);
+    let qb = this.createQueryBuilder();
 
     if (options) {
       if (options.where) {
@@ -178,7 +190,7 @@ export class Repository<T = any, S extends RepositoryScopes<T> = any> {
     const offset = (pagination.page - 1) * pagination.pageSize;
 
     // Build base query for counting
-    let countQb = new QueryBuilder<T>(this.model.table, this.executor);
+    let countQb = this.createQueryBuilder();
     if (options.where) {
       countQb = countQb.where(options.where);
     }
@@ -194,7 +206,7 @@ export class Repository<T = any, S extends RepositoryScopes<T> = any> {
     const totalPages = Math.ceil(totalItems / pagination.pageSize);
 
     // Build query for data
-    let dataQb = new QueryBuilder<T>(this.model.table, this.executor);
+    let dataQb = this.createQueryBuilder();
     if (options.where) {
       dataQb = dataQb.where(options.where);
     }
@@ -256,7 +268,7 @@ export class Repository<T = any, S extends RepositoryScopes<T> = any> {
     groupBy?: (keyof T)[];
     having?: WhereCondition<T>;
   }): Promise<T | SelectedType<T, S> | null> {
-    let qb = new QueryBuilder<T>(this.model.table, this.executor);
+    let qb = this.createQueryBuilder();
 
     if (options) {
       if (options.where) {
@@ -283,37 +295,52 @@ export class Repository<T = any, S extends RepositoryScopes<T> = any> {
   }
 
   async pluck<K extends keyof T>(field: K): Promise<T[K][]> {
-    return new QueryBuilder<T>(this.model.table, this.executor).pluck(field);
+    return this.createQueryBuilder().pluck(field);
   }
 
   async count(): Promise<number> {
-    return new QueryBuilder<T>(this.model.table, this.executor).count();
+    return this.createQueryBuilder().count();
   }
 
   async update(data: Partial<T>): Promise<T[]> {
-    return new QueryBuilder<T>(this.model.table, this.executor).update(data);
+    return this.createQueryBuilder().update(data);
   }
 
   async delete(): Promise<T[]> {
-    return new QueryBuilder<T>(this.model.table, this.executor).delete();
+    return this.createQueryBuilder().delete();
   }
 
   // Create a record
   async create(data: Partial<T>): Promise<T> {
-    const queryBuilder = new QueryBuilder<T>(this.model.table, this.executor);
+    const queryBuilder = this.createQueryBuilder();
     return await queryBuilder.insert(data);
   }
 
   // Bulk create
   async createMany(data: Partial<T>[]): Promise<T[]> {
     if (data.length === 0) return [];
-    const queryBuilder = new QueryBuilder<T>(this.model.table, this.executor);
+    const queryBuilder = this.createQueryBuilder();
     return await queryBuilder.insertMany(data);
   }
 
+  // Insert a record, or update it when it conflicts with an existing one;
+  // null when the record was skipped with { ignore: true }
+  async upsert(data: Partial<T>, options: UpsertOptions<T>): Promise<T | null> {
+    return this.createQueryBuilder().upsert(data, options);
+  }
+
+  // Bulk upsert
+  async upsertMany(
+    data: Partial<T>[],
+    options: UpsertOptions<T>
+  ): Promise<T[]> {
+    if (data.length === 0) return [];
+    return this.createQueryBuilder().upsertMany(data, options);
+  }
+
   // Generic find method with relation support
   async find(options?: FindOptions<T>): Promise<T[]> {
-    let qb = new QueryBuilder<T>(this.model.table, this.executor);
+    let qb = this.createQueryBuilder();
 
     if (options) {
       if (options.where) {
@@ -353,7 +380,7 @@ export class Repository<T = any, S extends RepositoryScopes<T> = any> {
 
   // Generic findOne method with relation support
   async findOne(options?: FindOneOptions<T>): Promise<T | null> {
-    let qb = new QueryBuilder<T>(this.model.table, this.executor);
+    let qb = this.createQueryBuilder();
 
     if (options) {
       if (options.where) {
@@ -398,7 +425,7 @@ export class Repository<T = any, S extends RepositoryScopes<T> = any> {
     const offset = (pagination.page - 1) * pagination.pageSize;
 
     // Build base query for counting
-    let countQb = new QueryBuilder<T>(this.model.table, this.executor);
+    let countQb = this.createQueryBuilder();
     if (findOptions.where) {
       countQb = countQb.where(findOptions.where);
     }
@@ -439,6 +466,67 @@ export class Repository<T = any, S extends RepositoryScopes<T> = any> {
     };
   }
 
+  // Keyset (cursor) pagination with relation support - no COUNT query, stable under inserts
+  async findCursorPaginated(
+    options: FindCursorPaginatedOptions<T>
+  ): Promise<CursorPaginationResult<T>> {
+    const { where, select, relations, ...input } = options;
+    const primaryKey = getPrimaryKeyField(this.model.fields) as keyof T;
+
+    let qb = this.createQueryBuilder();
+    if (where) {
+      qb = qb.where(where);
+    }
+
+    const result = await paginateByCursor(
+      qb,
+      input,
+      primaryKey,
+      async (pageQb, orderFields) => {
+        if (!select) {
+          return pageQb.getMany() as Promise<Record<string, any>[]>;
+        }
+        // Order fields are needed to build the cursors, even when not selected
+        const extendedSelect: Record<string, boolean | undefined> = {
+          ...select,
+        };
+        orderFields.forEach((field) => {
+          extendedSelect[field as string] = true;
+        });
+        return pageQb.select(extendedSelect as typeof select).getMany();
+      }
+    );
+
+    let data = result.data as T[];
+    if (relations && Object.keys(relations).length > 0) {
+      data = await this.loadRelations(data, relations);
+    }
+
+    // Drop the order fields that were only fetched for the cursors
+    if (select) {
+      const selectedFields = Object.keys(select).filter(
+        (field) => select[field as keyof T]
+      );
+      const relationNames = Object.keys(relations || {});
+      data = data.map((record) => {
+        const projected: Record<string, any> = {};
+        Object.entries(record as Record<string, any>).forEach(
+          ([field, value]) => {
+            if (
+              selectedFields.includes(field) ||
+              relationNames.includes(field)
+            ) {
+              projected[field] = value;
+            }
+          }
+        );
+        return projected as T;
+      });
+    }
+
+    return { data, pageInfo: result.pageInfo };
+  }
+
   // Private method to load relations for a set of records
   private async loadRelations(
     records: T[],
@@ -699,7 +787,10 @@ export class ScopedQueryBuilder<T> {
     return this;
   }
 
-  orderBy(field: keyof T, direction: "asc" | "desc" = "asc"): this {
+  orderBy(
+    field: OrderByExpression<T>,
+    direction: "asc" | "desc" = "asc"
+  ): this {
     this.queryBuilder = this.queryBuilder.orderBy(field, direction);
     return this;
   }
@@ -763,6 +854,29 @@ export class ScopedQueryBuilder<T> {
     return this.queryBuilder.delete();
   }
 
+  // Render the SQL of the scoped query without executing it
+  toSQL(operation?: "select" | "count" | "delete"): SQLQuery;
+  toSQL(operation: "update", data: Partial<T>): SQLQuery;
+  toSQL(operation: "insert", data: Partial<T> | Partial<T>[]): SQLQuery;
+  toSQL(
+    operation: "upsert",
+    data: Partial<T> | Partial<T>[],
+    options: UpsertOptions<T>
+  ): SQLQuery;
+  toSQL(
+    operation: QueryOperation = "select",
+    data?: Partial<T> | Partial<T>[],
+    options?: UpsertOptions<T>
+  ): SQLQuery {
+    return this.queryBuilder.toSQL(operation, data, options);
+  }
+
+  explain(options: ExplainOptions & { format: "json" }): Promise<ExplainPlan>;
+  explain(options?: ExplainOptions): Promise<string>;
+  async explain(options: ExplainOptions = {}): Promise<ExplainPlan | string> {
+    return this.queryBuilder.explain(options);
+  }
+
   // Clone method for scoped query builder
   clone(): ScopedQueryBuilder<T> {
     const clonedQb = this.queryBuilder.clone();
@@ -798,6 +912,22 @@ export class ScopedQueryBuilder<T> {
       },
     };
   }
+
+  // Keyset (cursor) pagination on the current query state
+  async getManyCursorPaginated(
+    input: CursorPaginationInput<T>
+  ): Promise<CursorPaginationResult<T>> {
+    const primaryKey = getPrimaryKeyField(
+      this.queryBuilder.getFieldsDefinition()
+    ) as keyof T;
+    const result = await paginateByCursor(
+      this.queryBuilder,
+      input,
+      primaryKey,
+      (pageQb) => pageQb.getMany() as Promise<Record<string, any>[]>
+    );
+    return result as CursorPaginationResult<T>;
+  }
 }
 
 // Scoped select query builder that maintains scope functionality with typed selects
@@ -815,6 +945,16 @@ export class ScopedSelectQueryBuilder<T, S extends SelectFields<T>> {
   async getOne(): Promise<SelectedType<T, S> | null> {
     return this.selectQueryBuilder.getOne();
   }
+
+  toSQL(operation: "select" | "count" = "select"): SQLQuery {
+    return this.selectQueryBuilder.toSQL(operation);
+  }
+
+  explain(options: ExplainOptions & { format: "json" }): Promise<ExplainPlan>;
+  explain(options?: ExplainOptions): Promise<string>;
+  async explain(options: ExplainOptions = {}): Promise<ExplainPlan | string> {
+    return this.selectQueryBuilder.explain(options);
+  }
 }
 
 // Create a repository with scopes and proper typing
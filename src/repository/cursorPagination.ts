@@ -0,0 +1,216 @@
+import {
+  CursorOrderBy,
+  CursorPaginationInput,
+  CursorPaginationResult,
+  getColumnName,
+  OrderDirection,
+  WhereCondition,
+} from "../types";
+import { QueryBuilder } from "../builder/QueryBuilder";
+import { raw, sql, SqlFragment } from "../builder/sql";
+import { deserializeFieldValue, serializeFieldValue } from "../core/codecs";
+
+export const DEFAULT_CURSOR_PAGE_SIZE = 20;
+
+interface ResolvedOrder<T> {
+  field: keyof T;
+  direction: OrderDirection;
+  expression?: SqlFragment; // Compared and sorted instead of the column, e.g. a truncated timestamp
+}
+
+const COMPARISON_OPERATORS: Record<string, string> = { gt: ">", gte: ">=", lt: "<", lte: "<=" };
+
+export function encodeCursor(values: unknown[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, expectedLength: number): unknown[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch (error) {
+    throw new Error("Invalid pagination cursor");
+  }
+  if (!Array.isArray(values) || values.length !== expectedLength) {
+    throw new Error("Invalid pagination cursor");
+  }
+  return values;
+}
+
+// Keyset predicate for rows strictly after (or before) the cursor position:
+// (a > x) OR (a = x AND b > y) OR (a = x AND b = y AND c > z) ...
+// Inclusive predicates also match the row at the cursor position itself.
+export function buildKeysetCondition<T>(
+  order: ResolvedOrder<T>[],
+  values: unknown[],
+  position: "after" | "before",
+  inclusive: boolean = false
+): WhereCondition<T> {
+  const branches = order.map((current, index) => {
+    // Plain fields share one condition object; expressions are separate terms, in order
+    const parts: WhereCondition<T>[] = [];
+    const compare = (orderBy: ResolvedOrder<T>, operator: string, value: unknown) => {
+      if (orderBy.expression) {
+        parts.push(sql`${orderBy.expression} ${raw(COMPARISON_OPERATORS[operator] ?? "=")} ${value}`);
+        return;
+      }
+      let branch = parts[parts.length - 1];
+      if (!branch || branch instanceof SqlFragment) {
+        branch = {} as WhereCondition<T>;
+        parts.push(branch);
+      }
+      (branch as Record<string, unknown>)[orderBy.field as string] =
+        operator === "eq" ? value : { [operator]: value };
+    };
+    order.slice(0, index).forEach((previous, previousIndex) => {
+      compare(previous, "eq", values[previousIndex]);
+    });
+    const ascending = current.direction === "asc";
+    const strict = ascending === (position === "after") ? "gt" : "lt";
+    compare(current, inclusive && index === order.length - 1 ? `${strict}e` : strict, values[index]);
+
+    return parts.length === 1 ? (parts[0] as WhereCondition<T>) : ({ AND: parts } as WhereCondition<T>);
+  });
+
+  return { OR: branches };
+}
+
+// Run a keyset-paginated query. The fetch callback executes the prepared builder,
+// and must return rows that include every order field so cursors can be built.
+export async function paginateByCursor<T, R extends Record<string, any>>(
+  queryBuilder: QueryBuilder<T>,
+  input: CursorPaginationInput<T>,
+  primaryKey: keyof T,
+  fetch: (qb: QueryBuilder<T>, orderFields: (keyof T)[]) => Promise<R[]>
+): Promise<CursorPaginationResult<R>> {
+  if (input.first !== undefined && input.last !== undefined) {
+    throw new Error("Cursor pagination accepts either 'first' or 'last', not both");
+  }
+  for (const option of ["first", "last"] as const) {
+    const size = input[option];
+    if (size !== undefined && (!Number.isInteger(size) || size < 1)) {
+      throw new Error(`Invalid '${option}' value '${size}': use a positive integer`);
+    }
+  }
+
+  // Dates only hold milliseconds, so timestamps are sorted and compared at that precision:
+  // a cursor then matches its row exactly, and rows within a millisecond go by the next field
+  const fieldsDefinition = queryBuilder.getFieldsDefinition();
+  const order: ResolvedOrder<T>[] = (input.orderBy || []).map(
+    (orderBy: CursorOrderBy<T>) => ({
+      field: orderBy.field,
+      direction: orderBy.direction || "asc",
+    })
+  );
+  if (!order.some((orderBy) => orderBy.field === primaryKey)) {
+    order.push({ field: primaryKey, direction: "asc" });
+  }
+  order.forEach((orderBy) => {
+    const fieldDef = fieldsDefinition[orderBy.field as string];
+    if (fieldDef?.type === "timestamp") {
+      const column = getColumnName(orderBy.field as string, fieldDef);
+      orderBy.expression = raw(`date_trunc('milliseconds', ${column})`);
+    }
+  });
+
+  const backward = input.last !== undefined;
+  const pageSize = backward
+    ? (input.last as number)
+    : input.first ?? DEFAULT_CURSOR_PAGE_SIZE;
+
+  // Equality and comparisons skip NULLs, so rows with a NULL order value would never be reached
+  const nullableOrder = order.find((orderBy) => {
+    const fieldDef = fieldsDefinition[orderBy.field as string];
+    return fieldDef?.nullable && !fieldDef.primaryKey;
+  });
+  if (nullableOrder) {
+    throw new Error(
+      `Cursor pagination cannot order by nullable field '${String(nullableOrder.field)}'`
+    );
+  }
+
+  // Cursors hold driver values, so codec-mapped types such as bigint survive JSON
+  const decodeOrderValues = (cursor: string) =>
+    decodeCursor(cursor, order.length).map((value, index) =>
+      deserializeFieldValue(value, fieldsDefinition[order[index].field as string])
+    );
+
+  // Keyset pagination owns the ordering and window of the query
+  const qb = queryBuilder.clone().clearOrderBy().clearOffset();
+
+  if (input.after) {
+    const values = decodeOrderValues(input.after);
+    qb.andWhere(buildKeysetCondition(order, values, "after"));
+  }
+  if (input.before) {
+    const values = decodeOrderValues(input.before);
+    qb.andWhere(buildKeysetCondition(order, values, "before"));
+  }
+
+  // Walking backward reads the rows in reverse order, then restores it
+  order.forEach((orderBy) => {
+    const direction = backward
+      ? orderBy.direction === "asc"
+        ? "desc"
+        : "asc"
+      : orderBy.direction;
+    qb.orderBy(orderBy.expression ?? orderBy.field, direction);
+  });
+  qb.limit(pageSize + 1);
+
+  const rows = await fetch(
+    qb,
+    order.map((orderBy) => orderBy.field)
+  );
+  const hasMore = rows.length > pageSize;
+  const data = rows.slice(0, pageSize);
+  if (backward) {
+    data.reverse();
+  }
+
+  const cursorFor = (row: R) =>
+    encodeCursor(
+      order.map((orderBy) =>
+        serializeFieldValue(
+          row[orderBy.field as string],
+          fieldsDefinition[orderBy.field as string]
+        )
+      )
+    );
+  const first = data[0];
+  const last = data[data.length - 1];
+
+  // Whether a row lies past the edge of the page, or from the cursor row on when the page is empty
+  const hasRowBeyond = async (edge: R | undefined, cursor: string, position: "after" | "before") => {
+    const boundary = edge
+      ? order.map((orderBy) => edge[orderBy.field as string])
+      : decodeOrderValues(cursor);
+    const row = await queryBuilder
+      .clone()
+      .clearOrderBy()
+      .clearOffset()
+      .andWhere(buildKeysetCondition(order, boundary, position, !edge))
+      .limit(1)
+      .getOne();
+    return row !== null;
+  };
+
+  // The extra row fetched shows whether the page continues in its own direction;
+  // the other direction is only open when a cursor started the page mid-way
+  const hasNextPage = backward
+    ? !!input.before && (await hasRowBeyond(last, input.before, "after"))
+    : hasMore;
+  const hasPreviousPage = backward
+    ? hasMore
+    : !!input.after && (await hasRowBeyond(first, input.after, "before"));
+
+  return {
+    data,
+    pageInfo: {
+      startCursor: first ? cursorFor(first) : null,
+      endCursor: last ? cursorFor(last) : null,
+      hasNextPage,
+      hasPreviousPage,
+    },
+  };
+}
@@ -1,24 +1,47 @@
 // Core types for Querio ORM
+import { deserializeFieldValue, serializeFieldValue } from "../core/codecs";
+
 export type FieldType =
   | "text"
+  | "varchar"
+  | "char"
   | "uuid"
   | "integer"
+  | "smallint"
+  | "bigint"
   | "boolean"
   | "timestamp"
+  | "date"
+  | "time"
+  | "interval"
   | "decimal"
+  | "real"
+  | "double"
   | "json"
-  | "enum";
-
-// Type inference from field definitions
+  | "enum"
+  | "array"
+  | "tsvector"
+  | "bytea"
+  | "inet"
+  | "cidr";
+
+// Type inference from field definitions; a codec decides the entity type of its field
 export type InferFieldType<F extends FieldDefinition> = 
-  F['type'] extends 'text' ? string :
+  F extends { codec: FieldCodec<infer V, any> } ? V :
+  F['type'] extends 'text' | 'varchar' | 'char' ? string :
   F['type'] extends 'uuid' ? string :
-  F['type'] extends 'integer' ? number :
+  F['type'] extends 'integer' | 'smallint' ? number :
+  F['type'] extends 'bigint' ? bigint :
   F['type'] extends 'boolean' ? boolean :
-  F['type'] extends 'timestamp' ? Date :
-  F['type'] extends 'decimal' ? number :
+  F['type'] extends 'timestamp' | 'date' ? Date :
+  F['type'] extends 'time' | 'interval' ? string :
+  F['type'] extends 'decimal' | 'real' | 'double' ? number :
+  F['type'] extends 'bytea' ? Buffer :
+  F['type'] extends 'inet' | 'cidr' ? string :
   F['type'] extends 'json' ? any :
   F['type'] extends 'enum' ? (F['enumValues'] extends readonly (infer E)[] ? E : string) :
+  F['type'] extends 'tsvector' ? string :
+  F['type'] extends 'array' ? (F['elementType'] extends FieldDefinition ? InferFieldType<F['elementType']>[] : unknown[]) :
   unknown;
 
 export type InferNullableFieldType<F extends FieldDefinition> = 
@@ -49,6 +72,30 @@ export interface PaginationResult<T> {
   };
 }
 
+// Cursor (keyset) pagination interfaces
+export interface CursorOrderBy<T> {
+  field: keyof T;
+  direction?: "asc" | "desc";
+}
+
+export interface CursorPaginationInput<T> {
+  orderBy?: CursorOrderBy<T>[]; // The primary key is appended as a tie-breaker
+  first?: number; // Page size when paginating forward (default 20)
+  after?: string; // Cursor to start after
+  last?: number; // Page size when paginating backward
+  before?: string; // Cursor to end before
+}
+
+export interface CursorPaginationResult<T> {
+  data: T[];
+  pageInfo: {
+    startCursor: string | null;
+    endCursor: string | null;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+}
+
 // Relation loading types
 export interface RelationLoadOptions {
   [relationName: string]: boolean | RelationLoadOptions;
@@ -87,6 +134,13 @@ export interface FindPaginatedOptions<T> {
   relations?: RelationLoadOptions;
 }
 
+// Cursor pagination input with relation support
+export interface FindCursorPaginatedOptions<T> extends CursorPaginationInput<T> {
+  where?: WhereCondition<T>;
+  select?: SelectFields<T>;
+  relations?: RelationLoadOptions;
+}
+
 // Logging types
 export interface QueryLogEntry {
   sql: string;
@@ -152,11 +206,54 @@ export interface FieldDefinition {
   column?: string; // Optional: maps entity field to database column name
   enumValues?: string[]; // For enum fields
   enumName?: string; // Custom enum type name in database
+  length?: number; // For varchar and char fields
+  precision?: number; // For decimal fields: total number of digits
+  scale?: number; // For decimal fields: digits after the decimal point
+  withTimezone?: boolean; // For timestamp (default true) and time (default false) fields
+  elementType?: FieldDefinition; // For array fields
+  generatedFrom?: string[]; // For tsvector fields: source text fields of the generated column
+  language?: string; // For tsvector fields: text search configuration (default 'english')
+  weights?: Record<string, SearchWeight>; // For tsvector fields: weight per source field
+  codec?: FieldCodec; // Converts values between the entity and the database driver
+  minLength?: number; // For text fields: minimum number of characters
+  maxLength?: number; // For text fields: maximum number of characters
+  pattern?: RegExp; // For text fields: the value must match
+  email?: boolean; // For text fields: the value must be an email address
+  min?: number; // For numeric fields: smallest allowed value
+  max?: number; // For numeric fields: largest allowed value
+  validate?: FieldValidator | FieldValidator[]; // Custom checks, run in the application only
+  references?: FieldReference; // Foreign key to a field of another model
+}
+
+// Foreign key target of a field; model is a registered model name or a table name
+export interface FieldReference {
+  model: string;
+  field?: string; // Defaults to 'id'
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+export type ReferentialAction =
+  | "cascade"
+  | "restrict"
+  | "setNull"
+  | "setDefault"
+  | "noAction";
+
+// Custom field check: return false or an error message to reject the value
+export type FieldValidator<V = any> = (value: V) => boolean | string;
+
+// Conversion of a field's values: serialize before binding as a parameter,
+// deserialize when reading a row. Null values are never passed to a codec.
+export interface FieldCodec<V = any, D = any> {
+  serialize?: (value: V) => D;
+  deserialize?: (value: D) => V;
 }
 
+export type SearchWeight = "A" | "B" | "C" | "D";
+
 // Import relation types
 export type { Relation } from "../core/relations";
-
 // Combined field definition that can be either a field or a relation
 export type FieldOrRelationDefinition = FieldDefinition | any; // Allow relations
 
@@ -176,6 +273,18 @@ export interface TableConstraints {
   custom?: CustomConstraint[]; // Custom SQL constraints
 }
 
+export type IndexMethod = "btree" | "hash" | "gin" | "gist" | "brin" | "spgist";
+
+// Index over fields or, for expression indexes, over a SQL expression
+export interface IndexDefinition {
+  name?: string; // Defaults to <table>_<columns>_idx
+  fields?: string[]; // Indexed fields, in order
+  expression?: string; // SQL expression for expression indexes (e.g., "lower(email)")
+  unique?: boolean;
+  using?: IndexMethod; // Index method (default btree)
+  where?: string; // SQL predicate for partial indexes (e.g., "deleted_at IS NULL")
+}
+
 export type FieldsDefinition = Record<string, FieldOrRelationDefinition>;
 
 // Utility function to convert camelCase to snake_case
@@ -199,6 +308,14 @@ export function getColumnName(
   return camelToSnake(field);
 }
 
+// Primary key field of a model, falling back to 'id'
+export function getPrimaryKeyField(fieldsDefinition: FieldsDefinition): string {
+  const primaryKey = Object.entries(fieldsDefinition).find(
+    ([, fieldDef]) => fieldDef && fieldDef.primaryKey
+  );
+  return primaryKey ? primaryKey[0] : "id";
+}
+
 // Utility function to map entity fields to database columns
 export function mapFieldsToColumns(
   fields: Record<string, any>,
@@ -207,7 +324,7 @@ export function mapFieldsToColumns(
   const mapped: Record<string, any> = {};
   Object.entries(fields).forEach(([field, value]) => {
     const columnName = getColumnName(field, fieldsDefinition[field]);
-    mapped[columnName] = value;
+    mapped[columnName] = serializeFieldValue(value, fieldsDefinition[field]);
   });
   return mapped;
 }
@@ -229,7 +346,7 @@ export function mapColumnsToFields<T>(
   // Map each column in the row back to its field name
   Object.entries(row).forEach(([column, value]) => {
     const fieldName = columnToFieldMap[column] || snakeToCamel(column);
-    mapped[fieldName] = value;
+    mapped[fieldName] = deserializeFieldValue(value, fieldsDefinition[fieldName]);
   });
 
   return mapped as T;
@@ -243,23 +360,112 @@ export function mapRowsToEntities<T>(
   return rows.map((row) => mapColumnsToFields<T>(row, fieldsDefinition));
 }
 
+// Nested queries usable as IN / NOT IN values and in EXISTS conditions
+export type Subquery =
+  | import("../builder/QueryBuilder").QueryBuilder<any>
+  | import("../builder/QueryBuilder").SelectQueryBuilder<any, any>;
+
+// Nested query of a single selected column, for IN / NOT IN
+export type ColumnSubquery = import("../builder/QueryBuilder").SelectQueryBuilder<any, any>;
+
+// Reference to an outer query column, created with ref('table.column')
+type ColumnReference = import("../builder/references").ColumnReference;
+
+// Parameterized SQL created with the sql`...` tag
+type SqlFragment<R = unknown> = import("../builder/sql").SqlFragment<R>;
+
+// Window function column, created with rowNumber().over(...) or sum(field).over(...)
+type WindowExpression<
+  A extends string = string,
+  P extends string = string
+> = import("../builder/windows").WindowExpression<
+  import("../builder/windows").WindowFunction,
+  A,
+  P
+>;
+type WindowValue<T, E> = import("../builder/windows").WindowValue<T, E>;
+
+// Expression over model fields such as jsonPath() or tsRank()
+type FieldExpression<R = unknown> = import("../builder/sql").FieldExpression<R>;
+
 // Base field condition type
 export type FieldCondition<T, K extends keyof T> =
   | T[K]
+  | ColumnReference
+  | SqlFragment
   | {
-      eq?: T[K];
-      ne?: T[K];
-      gt?: T[K];
-      gte?: T[K];
-      lt?: T[K];
-      lte?: T[K];
+      eq?: T[K] | ColumnReference | SqlFragment;
+      ne?: T[K] | ColumnReference | SqlFragment;
+      gt?: T[K] | ColumnReference | SqlFragment;
+      gte?: T[K] | ColumnReference | SqlFragment;
+      lt?: T[K] | ColumnReference | SqlFragment;
+      lte?: T[K] | ColumnReference | SqlFragment;
       like?: string;
       ilike?: string;
-      in?: T[K][];
-      notIn?: T[K][];
+      in?: T[K][] | ColumnSubquery;
+      notIn?: T[K][] | ColumnSubquery;
       isNull?: boolean;
       isNotNull?: boolean;
-    };
+      search?: string | SearchQuery; // Full-text search with websearch_to_tsquery
+    }
+  | JsonCondition
+  | (T[K] extends readonly (infer E)[] | null ? ArrayCondition<E> : never);
+
+// Conditions for array fields
+export interface ArrayCondition<E> {
+  has?: E; // value = ANY(column)
+  hasEvery?: E[]; // @>
+  hasSome?: E[]; // &&
+  length?: number | { eq?: number; ne?: number; gt?: number; gte?: number; lt?: number; lte?: number };
+  isNull?: boolean;
+  isNotNull?: boolean;
+}
+
+// Full-text search query, with a language overriding the field's configuration
+export interface SearchQuery {
+  query: string;
+  language?: string;
+}
+
+// JSONB conditions for json fields. With a path, the other operators compare the
+// value at that path, e.g. { path: ["theme", "color"], eq: "dark" }
+export interface JsonCondition {
+  contains?: unknown; // @>
+  containedBy?: unknown; // <@
+  hasKey?: string; // ?
+  hasAnyKeys?: string[]; // ?|
+  hasAllKeys?: string[]; // ?&
+  path?: string[];
+  eq?: unknown;
+  ne?: unknown;
+  gt?: unknown;
+  gte?: unknown;
+  lt?: unknown;
+  lte?: unknown;
+  like?: string;
+  ilike?: string;
+  in?: unknown[];
+  notIn?: unknown[];
+  isNull?: boolean;
+  isNotNull?: boolean;
+}
+
+// Query body of a common table expression
+export type CteSource = Subquery | SqlFragment;
+
+export interface CteOptions {
+  columns?: string[]; // Column list of the CTE, e.g. WITH tree (id, depth) AS (...)
+}
+
+export interface RecursiveCteOptions extends CteOptions {
+  unionAll?: boolean; // Defaults to true; false uses UNION to drop duplicate rows
+}
+
+// EXISTS / NOT EXISTS conditions on nested queries
+export interface SubqueryConditions {
+  EXISTS?: Subquery;
+  NOT_EXISTS?: Subquery;
+}
 
 // Enhanced where condition type with logical operators
 export type WhereCondition<T = any> =
@@ -279,7 +485,11 @@ export type WhereCondition<T = any> =
       [K in keyof T]?: FieldCondition<T, K>;
     } & {
       OR?: WhereCondition<T>[];
-    });
+    })
+  | ({
+      [K in keyof T]?: FieldCondition<T, K>;
+    } & SubqueryConditions)
+  | SqlFragment;
 
 // Order by types
 export type OrderDirection = "asc" | "desc";
@@ -287,15 +497,39 @@ export type OrderBy<T> =
   | {
       [K in keyof T]?: OrderDirection;
     }
-  | keyof T;
+  | keyof T
+  | SqlFragment;
+
+// Order by field, raw expression, or field expression such as a JSON path or search rank
+export type OrderByExpression<T> = keyof T | SqlFragment | FieldExpression;
 
-// Select types for partial selection
+// Select types for partial selection, plus computed columns keyed by alias
 export type SelectFields<T> = {
   [K in keyof T]?: boolean;
+} & {
+  [alias: string]:
+    | boolean
+    | SqlFragment<any>
+    | WindowExpression<Extract<keyof T, string>, Extract<keyof T, string>>
+    | FieldExpression<any>
+    | undefined;
 };
 
 export type SelectedType<T, S extends SelectFields<T>> = {
-  [K in keyof S as S[K] extends true ? K : never]: K extends keyof T
+  [K in keyof S as S[K] extends true
+    ? K
+    : S[K] extends
+        | SqlFragment<any>
+        | WindowExpression<any, any>
+        | FieldExpression<any>
+    ? K
+    : never]: S[K] extends SqlFragment<infer R>
+    ? R
+    : S[K] extends FieldExpression<infer R>
+    ? R
+    : S[K] extends WindowExpression<any, any>
+    ? WindowValue<T, S[K]>
+    : K extends keyof T
     ? T[K]
     : never;
 };
@@ -306,16 +540,45 @@ export type JoinType = "inner" | "left" | "right" | "full";
 export interface JoinCondition {
   table: string;
   type: JoinType;
-  on: string;
+  on: string | SqlFragment;
   alias?: string;
 }
 
+// Options for joining a relation declared in the model registry
+export interface JoinRelationOptions {
+  type?: JoinType; // Defaults to 'inner'
+  alias?: string; // Defaults to the relation name
+  pivotAlias?: string; // belongsToMany only, defaults to `${alias}_pivot`
+}
+
+// Upsert types: conflict target is a list of fields or a constraint name
+export type ConflictTarget<T> = (keyof T)[] | string;
+
+export interface UpsertOptions<T> {
+  onConflict?: ConflictTarget<T>; // Required unless conflicting rows are ignored
+  merge?: (keyof T)[]; // Fields to update, defaults to every inserted field
+  ignore?: boolean; // Skip conflicting rows instead of updating them
+}
+
 // SQL Building types
 export interface SQLQuery {
   sql: string;
   params: unknown[];
 }
 
+// Statements a query builder can render with toSQL()
+export type QueryOperation = "select" | "count" | "update" | "delete" | "insert" | "upsert";
+
+export interface ExplainOptions {
+  analyze?: boolean; // Executes the query to report actual timings
+  buffers?: boolean;
+  verbose?: boolean;
+  format?: "text" | "json";
+}
+
+// Parsed EXPLAIN (FORMAT JSON) output: one entry per statement
+export type ExplainPlan = Record<string, any>[];
+
 export interface ModelDefinition<T extends FieldsDefinition> {
   table: string;
   fields: T;
@@ -323,9 +586,15 @@ export interface ModelDefinition<T extends FieldsDefinition> {
 }
 
 // Query execution types
+export interface StreamOptions {
+  batchSize?: number; // Rows fetched per round trip (default 1000)
+}
+
 export interface QueryExecutor {
   execute<T>(query: SQLQuery): Promise<T[]>;
   executeOne<T>(query: SQLQuery): Promise<T | null>;
+  // Optional: iterate rows through a server-side cursor instead of buffering them
+  stream?<T>(query: SQLQuery, options?: StreamOptions): AsyncIterable<T>;
 }
 
 // Repository type utilities for creating strongly typed specific repositories
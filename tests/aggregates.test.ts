@@ -0,0 +1,59 @@
+import { bigint, count, decimal, decimalAsString, integer, QueryBuilder, sum, text, withCodec } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = {
+  id: integer({ primaryKey: true }),
+  status: text(),
+  views: bigint(),
+  amount: withCodec(decimal({ precision: 20, scale: 2 }), decimalAsString),
+  quantity: integer(),
+};
+
+interface Order {
+  id: number;
+  status: string;
+  views: bigint;
+  amount: string;
+  quantity: number;
+}
+
+describe("aggregates", () => {
+  it("reads sums over bigint and decimal columns through their codecs", async () => {
+    const executor = createRecordingExecutor([
+      [{ value: "9007199254740993" }],
+      [{ value: "12345678901234567.89" }],
+      [{ value: "42" }],
+    ]);
+    const query = () => new QueryBuilder<Order>("orders", executor, fields);
+
+    await expect(query().sum("views")).resolves.toBe(9007199254740993n);
+    await expect(query().sum("amount")).resolves.toBe("12345678901234567.89");
+    await expect(query().sum("quantity")).resolves.toBe(42);
+    expect(executor.queries[0]?.sql).toBe("SELECT SUM(views) AS value FROM orders");
+  });
+
+  it("quotes aggregate aliases", async () => {
+    const executor = createRecordingExecutor();
+    await new QueryBuilder<Order>("orders", executor, fields)
+      .groupBy("status")
+      .aggregate({ 'total"; DROP TABLE orders; --': sum("quantity"), n: count() });
+
+    expect(executor.queries[0]?.sql).toBe(
+      'SELECT status, SUM(quantity) AS "total""; DROP TABLE orders; --", COUNT(*) AS "n" FROM orders GROUP BY status'
+    );
+  });
+
+  it("filters selects on aggregates in HAVING", () => {
+    const query = new QueryBuilder<Order>("orders", createRecordingExecutor(), fields)
+      .select({ status: true })
+      .groupBy("status")
+      .having(sum("quantity"), { gt: 10 })
+      .andHaving({ status: { ne: "draft" } })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql: "SELECT status FROM orders GROUP BY status HAVING SUM(quantity) > $1 AND status != $2",
+      params: [10, "draft"],
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { array, formatDefaultValue, generateCreateTableSQL, integer, QueryBuilder, text, uuid } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = {
+  id: uuid({ primaryKey: true }),
+  tags: array(text(), { default: [] }),
+  scores: array(integer()),
+};
+
+interface Post {
+  id: string;
+  tags: string[];
+  scores: number[];
+}
+
+describe("array fields", () => {
+  it("renders membership, overlap, containment and length", () => {
+    const query = new QueryBuilder<Post>("posts", createRecordingExecutor(), fields)
+      .where({ tags: { has: "orm" } })
+      .andWhere({ tags: { hasSome: ["a", "b"] } })
+      .andWhere({ scores: { hasEvery: [1, 2] } })
+      .andWhere({ tags: { length: { gte: 2 } } })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql: "SELECT * FROM posts WHERE $1 = ANY(tags) AND tags && $2 AND scores @> $3 AND cardinality(tags) >= $4",
+      params: ["orm", ["a", "b"], [1, 2], 2],
+    });
+  });
+
+  it("creates array columns with literal defaults", () => {
+    expect(generateCreateTableSQL("posts", fields)).toBe(
+      "CREATE TABLE posts (\n  id UUID NOT NULL,\n  tags TEXT[] NOT NULL DEFAULT '{}',\n  scores INTEGER[] NOT NULL,\n  PRIMARY KEY (id)\n);"
+    );
+    expect(formatDefaultValue(["a", 'b"c', null], "array", "text")).toBe(`'{"a","b\\"c",NULL}'`);
+  });
+
+  it("rejects nested arrays", () => {
+    expect(() => array(array(text()))).toThrow("Array fields do not support 'array' elements");
+  });
+});
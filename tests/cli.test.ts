@@ -0,0 +1,115 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { databaseConfigFromEnv, loadEnvFile } from "../src/cli/config";
+import { main, parseArgs } from "../src/cli";
+import { migrationFileName } from "../src";
+
+describe("parseArgs", () => {
+  it("splits positional arguments from options", () => {
+    expect(parseArgs(["migrate:down", "2", "--config", "db.config.ts", "--schema=app", "--verbose"])).toEqual({
+      args: ["migrate:down", "2"],
+      options: { config: "db.config.ts", schema: "app", verbose: "" },
+    });
+  });
+
+  it("takes --dry-run as a flag", () => {
+    expect(parseArgs(["migrate:up", "--dry-run", "--sql", "plan.sql"])).toEqual({
+      args: ["migrate:up"],
+      options: { "dry-run": "true", sql: "plan.sql" },
+    });
+  });
+});
+
+describe("migrationFileName", () => {
+  it("stamps the name with the UTC time", () => {
+    expect(migrationFileName("create_users", new Date("2024-01-31T12:00:00Z"))).toBe("20240131120000_create_users.ts");
+    expect(() => migrationFileName("create users")).toThrow(
+      "Invalid migration name 'create users': use letters, digits and underscores"
+    );
+  });
+});
+
+describe("environment config", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), "querio-cli-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("loads .env values without overriding the environment", () => {
+    fs.writeFileSync(path.join(cwd, ".env"), "# Database\nDB_NAME=shop\nDB_USER = 'admin'\nDB_PASSWORD=\"p=w\"\nDB_HOST=db\n\nnot a variable\n");
+    const env: NodeJS.ProcessEnv = { DB_HOST: "localhost" };
+    loadEnvFile(cwd, env);
+
+    expect(env).toEqual({ DB_HOST: "localhost", DB_NAME: "shop", DB_USER: "admin", DB_PASSWORD: "p=w" });
+  });
+
+  it("ignores a missing .env file", () => {
+    const env: NodeJS.ProcessEnv = {};
+    loadEnvFile(cwd, env);
+    expect(env).toEqual({});
+  });
+
+  it("builds the connection settings from DB_* variables", () => {
+    expect(databaseConfigFromEnv({ DB_NAME: "shop", DB_PORT: "6543", DB_SSL: "true", DB_MAX_CONNECTIONS: "5" })).toEqual({
+      host: "localhost",
+      port: 6543,
+      database: "shop",
+      user: "postgres",
+      password: "",
+      ssl: true,
+      max: 5,
+    });
+    expect(() => databaseConfigFromEnv({})).toThrow("No database configured");
+  });
+});
+
+describe("main", () => {
+  let cwd: string;
+  let output: string[];
+  let errors: string[];
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), "querio-cli-"));
+    output = [];
+    errors = [];
+    jest.spyOn(console, "log").mockImplementation((message: string) => void output.push(message));
+    jest.spyOn(console, "error").mockImplementation((message: string) => void errors.push(message));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("creates a timestamped migration file", async () => {
+    await expect(main(["migrate:make", "create_users"], cwd)).resolves.toBe(0);
+
+    const files = fs.readdirSync(path.join(cwd, "migrations"));
+    expect(files).toEqual([expect.stringMatching(/^\d{14}_create_users\.ts$/)]);
+    expect(fs.readFileSync(path.join(cwd, "migrations", files[0] as string), "utf8")).toContain(
+      "export async function up(migration: Migration, db: QueryExecutor): Promise<void> {"
+    );
+    expect(output).toEqual([`✅ Created migration ${path.join("migrations", files[0] as string)}`]);
+  });
+
+  it("reports missing arguments", async () => {
+    await expect(main(["migrate:make"], cwd)).resolves.toBe(1);
+    expect(errors).toEqual(["❌ Usage: querio migrate:make <name>"]);
+    expect(fs.existsSync(path.join(cwd, "migrations"))).toBe(false);
+  });
+
+  it("prints the help for unknown commands", async () => {
+    await expect(main(["migrate:sideways"], cwd)).resolves.toBe(1);
+    expect(errors).toEqual(["❌ Unknown command 'migrate:sideways'\n"]);
+    expect(output[0]).toBe("Usage: querio <command> [--config <file>] [--schema <name>]\n\nCommands:");
+
+    await expect(main(["help"], cwd)).resolves.toBe(0);
+    await expect(main([], cwd)).resolves.toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  array,
+  bigint,
+  decimal,
+  decimalAsString,
+  InferEntityType,
+  mapColumnsToFields,
+  mapFieldsToColumns,
+  QueryBuilder,
+  text,
+  uuid,
+  withCodec,
+} from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = {
+  id: uuid({ primaryKey: true }),
+  ids: array(bigint()),
+  prices: array(withCodec(decimal(), decimalAsString)),
+  amounts: array(decimal()),
+  tags: array(text()),
+};
+
+type Ledger = InferEntityType<typeof fields>;
+
+describe("array element codecs", () => {
+  it("reads each element through the element codec", () => {
+    const row = { id: "1", ids: ["9007199254740993", null], prices: ["1.10"], amounts: ["2.50"], tags: ["a"] };
+    const ledger = mapColumnsToFields<Ledger>(row, fields);
+
+    expect(ledger).toEqual({ id: "1", ids: [9007199254740993n, null], prices: ["1.10"], amounts: [2.5], tags: ["a"] });
+    const ids: bigint[] = ledger.ids;
+    expect(typeof ids[0]).toBe("bigint");
+  });
+
+  it("writes each element through the element codec", () => {
+    expect(mapFieldsToColumns({ ids: [1n, 2n], amounts: [2.5], tags: ["a"] }, fields)).toEqual({
+      ids: ["1", "2"],
+      amounts: ["2.5"],
+      tags: ["a"],
+    });
+  });
+
+  it("serializes array operands in conditions", () => {
+    const query = new QueryBuilder<Ledger>("ledgers", createRecordingExecutor(), fields)
+      .where({ ids: { has: 3n } })
+      .andWhere({ ids: { hasSome: [4n, 5n] } })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql: "SELECT * FROM ledgers WHERE $1 = ANY(ids) AND ids && $2",
+      params: ["3", ["4", "5"]],
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { integer, QueryBuilder, sql, text, timestamp } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = { id: integer({ primaryKey: true }), parentId: integer(), name: text(), createdAt: timestamp() };
+
+interface Category {
+  id: number;
+  parentId: number;
+  name: string;
+  createdAt: Date;
+}
+
+const categories = () => new QueryBuilder<Category>("categories", createRecordingExecutor(), fields);
+
+describe("common table expressions", () => {
+  it("selects from a CTE and merges its parameters", () => {
+    const query = categories()
+      .withCte("recent", categories().where({ name: { like: "a%" } }))
+      .from("recent")
+      .where({ id: 3 })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql: "WITH recent AS (SELECT * FROM categories WHERE name LIKE $1) SELECT * FROM recent WHERE id = $2",
+      params: ["a%", 3],
+    });
+  });
+
+  it("renders recursive CTEs with column lists", () => {
+    const query = categories()
+      .withRecursive(
+        "tree",
+        categories().where({ id: 1 }).select({ id: true, parentId: true }),
+        sql`SELECT c.id, c.parent_id FROM categories c JOIN tree t ON c.parent_id = t.id WHERE c.id <> ${9}`,
+        { columns: ["id", "parent_id"], unionAll: false }
+      )
+      .from("tree")
+      .toSQL("count");
+
+    expect(query).toEqual({
+      sql:
+        "WITH RECURSIVE tree (id, parent_id) AS (SELECT id, parent_id FROM categories WHERE id = $1" +
+        " UNION SELECT c.id, c.parent_id FROM categories c JOIN tree t ON c.parent_id = t.id WHERE c.id <> $2)" +
+        " SELECT COUNT(*) as count FROM tree",
+      params: [1, 9],
+    });
+  });
+
+  it("rejects names that are not identifiers", () => {
+    expect(() => categories().withCte("x; DROP TABLE y", categories())).toThrow("Invalid CTE name");
+    expect(() => categories().from("tree t")).toThrow("Invalid table name");
+  });
+});
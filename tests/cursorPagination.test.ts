@@ -0,0 +1,120 @@
+import { integer, nullable, QueryBuilder, text, timestamp } from "../src";
+import { encodeCursor, paginateByCursor } from "../src/repository/cursorPagination";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = {
+  id: integer({ primaryKey: true }),
+  name: text(),
+  createdAt: timestamp(),
+  archivedAt: nullable.timestamp(),
+};
+
+interface Post {
+  id: number;
+  name: string;
+  createdAt: Date;
+  archivedAt: Date | null;
+}
+
+describe("cursor pagination", () => {
+  it("builds the keyset predicate after the cursor, comparing timestamps to the millisecond", async () => {
+    const executor = createRecordingExecutor();
+    const after = encodeCursor(["2024-01-01T00:00:00.000Z", 7]);
+    await paginateByCursor(
+      new QueryBuilder<Post>("posts", executor, fields).orderBy("name").offset(10),
+      { orderBy: [{ field: "createdAt", direction: "desc" }], first: 2, after },
+      "id",
+      (qb) => qb.getMany()
+    );
+
+    expect(executor.queries[0]).toEqual({
+      sql:
+        "SELECT * FROM posts WHERE ((date_trunc('milliseconds', created_at) < $1)" +
+        " OR ((date_trunc('milliseconds', created_at) = $2) AND id > $3))" +
+        " ORDER BY date_trunc('milliseconds', created_at) DESC, id ASC LIMIT $4",
+      params: ["2024-01-01T00:00:00.000Z", "2024-01-01T00:00:00.000Z", 7, 3],
+    });
+  });
+
+  it("rejects nullable order fields", async () => {
+    await expect(
+      paginateByCursor(
+        new QueryBuilder<Post>("posts", createRecordingExecutor(), fields),
+        { orderBy: [{ field: "archivedAt" }] },
+        "id",
+        (qb) => qb.getMany()
+      )
+    ).rejects.toThrow("Cursor pagination cannot order by nullable field 'archivedAt'");
+  });
+
+  it("rejects page sizes that are not positive integers", async () => {
+    const paginate = (input: { first?: number; last?: number }) =>
+      paginateByCursor(new QueryBuilder<Post>("posts", createRecordingExecutor(), fields), input, "id", (qb) =>
+        qb.getMany()
+      );
+
+    await expect(paginate({ first: 0 })).rejects.toThrow("Invalid 'first' value '0': use a positive integer");
+    await expect(paginate({ last: 2.5 })).rejects.toThrow("Invalid 'last' value '2.5': use a positive integer");
+  });
+
+  it("checks for rows before a forward page", async () => {
+    const executor = createRecordingExecutor([[{ id: 8, name: "h" }], []]);
+    const result = await paginateByCursor(
+      new QueryBuilder<Post>("posts", executor, fields),
+      { first: 2, after: encodeCursor([7]) },
+      "id",
+      (qb) => qb.getMany()
+    );
+
+    expect(result.pageInfo.hasNextPage).toBe(false);
+    expect(result.pageInfo.hasPreviousPage).toBe(false);
+    expect(executor.queries[1]).toEqual({
+      sql: "SELECT * FROM posts WHERE (id < $1) LIMIT $2",
+      params: [8, 1],
+    });
+  });
+
+  it("has no previous page at the start", async () => {
+    const executor = createRecordingExecutor([[{ id: 1, name: "a" }, { id: 2, name: "b" }]]);
+    const result = await paginateByCursor(new QueryBuilder<Post>("posts", executor, fields), { first: 1 }, "id", (qb) =>
+      qb.getMany()
+    );
+
+    expect(result.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+    expect(executor.queries).toHaveLength(1);
+  });
+
+  it("checks for rows after a backward page", async () => {
+    const executor = createRecordingExecutor([
+      [{ id: 5, name: "e" }, { id: 4, name: "d" }],
+      [{ id: 6, name: "f" }],
+    ]);
+    const result = await paginateByCursor(
+      new QueryBuilder<Post>("posts", executor, fields),
+      { last: 2, before: encodeCursor([7]) },
+      "id",
+      (qb) => qb.getMany()
+    );
+
+    expect(result.data.map((post) => post.id)).toEqual([4, 5]);
+    expect(result.pageInfo.hasNextPage).toBe(true);
+    expect(result.pageInfo.hasPreviousPage).toBe(false);
+    expect(executor.queries[1]).toEqual({
+      sql: "SELECT * FROM posts WHERE (id > $1) LIMIT $2",
+      params: [5, 1],
+    });
+  });
+
+  it("includes the cursor row when a backward page is empty", async () => {
+    const executor = createRecordingExecutor([[], []]);
+    const result = await paginateByCursor(
+      new QueryBuilder<Post>("posts", executor, fields),
+      { last: 2, before: encodeCursor([1]) },
+      "id",
+      (qb) => qb.getMany()
+    );
+
+    expect(result.pageInfo.hasNextPage).toBe(false);
+    expect(executor.queries[1]?.sql).toBe("SELECT * FROM posts WHERE (id >= $1) LIMIT $2");
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  compareSchema,
+  DatabaseSchema,
+  diffEnumValues,
+  enumField,
+  enumType,
+  generateAddEnumValueSQL,
+  generateCreateEnumSQL,
+  generateRenameEnumValueSQL,
+  ModelConfiguration,
+  nullable,
+  uuid,
+} from "../src";
+
+const orderStatus = enumType("order_status", ["pending", "paid", "shipped"] as const);
+
+const orders: ModelConfiguration = {
+  table: "enum_orders",
+  fields: {
+    id: uuid({ primaryKey: true }),
+    status: enumField(orderStatus, { default: "pending" }),
+    previousStatus: nullable.enumField(orderStatus),
+  },
+};
+
+describe("enum type SQL", () => {
+  it("creates a type unless one with the same values exists", () => {
+    expect(generateCreateEnumSQL("app.order_status", ["pending", "it's"])).toBe(
+      [
+        "DO $$ BEGIN",
+        "  CREATE TYPE app.order_status AS ENUM ('pending', 'it''s');",
+        "EXCEPTION WHEN duplicate_object THEN",
+        "  IF NOT (enum_range(NULL::app.order_status)::text[] @> ARRAY['pending', 'it''s']::text[]" +
+          " AND enum_range(NULL::app.order_status)::text[] <@ ARRAY['pending', 'it''s']::text[]) THEN",
+        "    RAISE EXCEPTION 'Enum type app.order_status already exists with values %, expected %'," +
+          " enum_range(NULL::app.order_status)::text[], ARRAY['pending', 'it''s']::text[];",
+        "  END IF;",
+        "END $$;",
+      ].join("\n")
+    );
+  });
+
+  it("adds and renames values", () => {
+    expect(generateAddEnumValueSQL("order_status", "refunded", { after: "paid", ifNotExists: true })).toBe(
+      "ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'refunded' AFTER 'paid';"
+    );
+    expect(generateRenameEnumValueSQL("order_status", "shipped", "sent")).toBe(
+      "ALTER TYPE order_status RENAME VALUE 'shipped' TO 'sent';"
+    );
+    expect(() => generateAddEnumValueSQL("order_status", "x", { before: "paid", after: "paid" })).toThrow(
+      "Enum value 'x' cannot be placed both before and after another value"
+    );
+  });
+
+  it("shares a named type between nullable and required fields", () => {
+    expect(orders.fields.previousStatus).toEqual({
+      type: "enum",
+      nullable: true,
+      enumValues: ["pending", "paid", "shipped"],
+      enumName: "order_status",
+    });
+  });
+});
+
+describe("enum type diff", () => {
+  it("places added values next to their neighbours", () => {
+    expect(diffEnumValues(["draft", "pending", "paid", "refunded"], ["pending", "paid", "legacy"])).toEqual({
+      added: [
+        { value: "draft", before: "pending" },
+        { value: "refunded", after: "paid" },
+      ],
+      removed: ["legacy"],
+    });
+  });
+
+  const database = (enums: Record<string, string[]>, tables: DatabaseSchema["tables"] = {}): DatabaseSchema => ({
+    tables,
+    enums,
+  });
+
+  it("creates missing types and tables in the schema", () => {
+    const operations = compareSchema([orders], database({}), { schema: "app" });
+
+    expect(operations.map((operation) => operation.type)).toEqual(["createEnum", "createTable"]);
+    expect(operations[0]?.sql).toContain("CREATE TYPE app.order_status AS ENUM ('pending', 'paid', 'shipped');");
+    expect(operations[1]?.sql).toContain("  status app.order_status NOT NULL DEFAULT 'pending',");
+    expect(operations[1]?.sql).not.toContain("CREATE TYPE");
+  });
+
+  it("adds new values and recreates types that lost values", () => {
+    const table = {
+      name: "enum_orders",
+      columns: [
+        { name: "id", dataType: "uuid", nullable: false, default: null, generated: false },
+        { name: "status", dataType: "order_status", nullable: false, default: "'legacy'::order_status", generated: false },
+      ],
+      constraints: [],
+      indexes: [],
+    };
+
+    expect(compareSchema([orders], database({ order_status: ["pending", "paid"] }), { schema: "app" })[0]).toMatchObject({
+      type: "addEnumValue",
+      sql: "ALTER TYPE app.order_status ADD VALUE 'shipped' AFTER 'paid';",
+    });
+
+    const operations = compareSchema(
+      [orders],
+      database({ order_status: ["pending", "paid", "shipped", "legacy"] }, { enum_orders: table }),
+      { schema: "app" }
+    );
+    expect(operations[0]).toMatchObject({ type: "recreateEnum", destructive: true });
+    expect(operations[0]?.sql.split("\n")).toEqual([
+      "ALTER TYPE app.order_status RENAME TO order_status_old;",
+      ...generateCreateEnumSQL("app.order_status", ["pending", "paid", "shipped"]).split("\n"),
+      "ALTER TABLE app.enum_orders ALTER COLUMN status DROP DEFAULT;",
+      "ALTER TABLE app.enum_orders ALTER COLUMN status TYPE app.order_status USING status::text::app.order_status;",
+      "DROP TYPE app.order_status_old;",
+    ]);
+    expect(operations.slice(1).map(({ type, sql }) => ({ type, sql }))).toEqual([
+      { type: "addColumn", sql: "ALTER TABLE app.enum_orders ADD COLUMN previous_status app.order_status;" },
+      { type: "setDefault", sql: "ALTER TABLE app.enum_orders ALTER COLUMN status SET DEFAULT 'pending';" },
+    ]);
+  });
+});
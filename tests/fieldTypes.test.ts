@@ -0,0 +1,92 @@
+import {
+  bigint,
+  bytea,
+  char,
+  cidr,
+  date,
+  decimal,
+  double,
+  formatDefaultValue,
+  generateCreateTableSQL,
+  inet,
+  InferEntityType,
+  interval,
+  real,
+  smallint,
+  time,
+  timestamp,
+  uuid,
+  varchar,
+} from "../src";
+
+const fields = {
+  id: uuid({ primaryKey: true }),
+  code: varchar({ length: 32 }),
+  country: char({ length: 2 }),
+  rank: smallint(),
+  views: bigint({ default: 0 }),
+  price: decimal({ precision: 10, scale: 2 }),
+  ratio: real(),
+  score: double(),
+  bornOn: date({ default: "current_date" }),
+  opensAt: time({ withTimezone: true }),
+  loggedAt: timestamp({ withTimezone: false }),
+  ttl: interval(),
+  avatar: bytea(),
+  address: inet(),
+  network: cidr(),
+};
+
+describe("scalar field types", () => {
+  it("maps each field to its PostgreSQL type", () => {
+    expect(generateCreateTableSQL("accounts", fields).split("\n").slice(1, -2)).toEqual([
+      "  id UUID NOT NULL,",
+      "  code VARCHAR(32) NOT NULL,",
+      "  country CHAR(2) NOT NULL,",
+      "  rank SMALLINT NOT NULL,",
+      "  views BIGINT NOT NULL DEFAULT 0,",
+      "  price DECIMAL(10, 2) NOT NULL,",
+      "  ratio REAL NOT NULL,",
+      "  score DOUBLE PRECISION NOT NULL,",
+      "  born_on DATE NOT NULL DEFAULT CURRENT_DATE,",
+      "  opens_at TIME WITH TIME ZONE NOT NULL,",
+      "  logged_at TIMESTAMP NOT NULL,",
+      "  ttl INTERVAL NOT NULL,",
+      "  avatar BYTEA NOT NULL,",
+      "  address INET NOT NULL,",
+      "  network CIDR NOT NULL,",
+    ]);
+  });
+
+  it("infers entity types", () => {
+    const account: InferEntityType<typeof fields> = {
+      id: "1",
+      code: "a",
+      country: "NL",
+      rank: 1,
+      views: 10n,
+      price: 9.99,
+      ratio: 0.5,
+      score: 0.25,
+      bornOn: new Date(0),
+      opensAt: "09:00+02",
+      loggedAt: new Date(0),
+      ttl: "1 day",
+      avatar: Buffer.from("ff", "hex"),
+      address: "10.0.0.1",
+      network: "10.0.0.0/8",
+    };
+    expect(typeof account.views).toBe("bigint");
+  });
+
+  it("formats bigint and bytea defaults", () => {
+    expect(formatDefaultValue(9007199254740993n, "bigint")).toBe("9007199254740993");
+    expect(formatDefaultValue(Buffer.from([0xde, 0xad]), "bytea")).toBe("'\\xdead'");
+  });
+
+  it("rejects type modifiers that are not positive integers", () => {
+    expect(() => generateCreateTableSQL("t", { code: varchar({ length: 0 }) })).toThrow("Invalid length '0'");
+    expect(() => generateCreateTableSQL("t", { price: decimal({ precision: 10, scale: -1 }) })).toThrow("Invalid scale '-1'");
+    expect(() => generateCreateTableSQL("t", { price: decimal({ scale: 2 }) })).toThrow("Decimal scale requires a precision");
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  belongsTo,
+  belongsToMany,
+  defineModel,
+  generateAddForeignKeySQL,
+  getForeignKeys,
+  Migration,
+  nullable,
+  text,
+  uuid,
+  varchar,
+} from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+defineModel("FkAuthor", {
+  table: "fk_authors",
+  fields: {
+    id: uuid({ primaryKey: true }),
+    name: text(),
+    tags: belongsToMany("FkTag", "fk_author_tags", "authorId", "tagId"),
+  },
+});
+defineModel("FkTag", { table: "fk_tags", fields: { id: uuid({ primaryKey: true }) } });
+defineModel("FkLanguage", { table: "fk_languages", fields: { isoCode: varchar({ primaryKey: true, length: 2 }) } });
+defineModel("FkAuthorTag", { table: "fk_author_tags", fields: { authorId: uuid(), tagId: uuid() } });
+
+const postFields = {
+  id: uuid({ primaryKey: true }),
+  authorId: uuid({ references: { model: "FkAuthor", onDelete: "cascade", onUpdate: "noAction" } }),
+  editorId: nullable.uuid({ references: { model: "fk_authors", onDelete: "setNull" } }),
+  reviewerId: nullable.uuid(),
+  reviewer: belongsTo("FkAuthor", "reviewerId"),
+};
+
+describe("foreign keys", () => {
+  it("renders field references and belongsTo relations", () => {
+    expect(getForeignKeys("fk_posts", postFields).map((foreignKey) => generateAddForeignKeySQL(foreignKey, "app"))).toEqual([
+      "ALTER TABLE app.fk_posts ADD CONSTRAINT fk_posts_author_id_fkey FOREIGN KEY (author_id)" +
+        " REFERENCES app.fk_authors (id) ON DELETE CASCADE ON UPDATE NO ACTION;",
+      "ALTER TABLE app.fk_posts ADD CONSTRAINT fk_posts_editor_id_fkey FOREIGN KEY (editor_id)" +
+        " REFERENCES app.fk_authors (id) ON DELETE SET NULL;",
+      "ALTER TABLE app.fk_posts ADD CONSTRAINT fk_posts_reviewer_id_fkey FOREIGN KEY (reviewer_id)" +
+        " REFERENCES app.fk_authors (id);",
+    ]);
+  });
+
+  it("gives belongsToMany pivot tables keys to both sides", () => {
+    const fields = { id: uuid({ primaryKey: true }), tags: belongsToMany("FkTag", "fk_author_tags", "authorId", "tagId") };
+
+    expect(getForeignKeys("fk_authors", fields)).toEqual([
+      {
+        name: "fk_author_tags_author_id_fkey",
+        table: "fk_author_tags",
+        column: "author_id",
+        referencedTable: "fk_authors",
+        referencedColumn: "id",
+      },
+      {
+        name: "fk_author_tags_tag_id_fkey",
+        table: "fk_author_tags",
+        column: "tag_id",
+        referencedTable: "fk_tags",
+        referencedColumn: "id",
+      },
+    ]);
+  });
+
+  it("references the target's primary key from the pivot table", () => {
+    const fields = {
+      id: uuid({ primaryKey: true }),
+      languages: belongsToMany("FkLanguage", "fk_author_languages", "authorId", "languageCode"),
+    };
+
+    expect(getForeignKeys("fk_authors", fields)[1]).toEqual({
+      name: "fk_author_languages_language_code_fkey",
+      table: "fk_author_languages",
+      column: "language_code",
+      referencedTable: "fk_languages",
+      referencedColumn: "iso_code",
+    });
+  });
+
+  it("rejects unknown referential actions", () => {
+    const fields = { authorId: uuid({ references: { model: "fk_authors", onDelete: "explode" as any } }) };
+    expect(() => getForeignKeys("fk_posts", fields).map((foreignKey) => generateAddForeignKeySQL(foreignKey))).toThrow(
+      "Invalid referential action 'explode'"
+    );
+  });
+
+  it("adds a table's own keys after creating it", async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const executor = createRecordingExecutor();
+    await new Migration(executor).createTable({ table: "fk_posts", fields: postFields });
+
+    expect(executor.queries.map((query) => query.sql.split("\n")[0])).toEqual([
+      "CREATE TABLE fk_posts (",
+      "ALTER TABLE fk_posts ADD CONSTRAINT fk_posts_author_id_fkey FOREIGN KEY (author_id) REFERENCES fk_authors (id) ON DELETE CASCADE ON UPDATE NO ACTION",
+      "ALTER TABLE fk_posts ADD CONSTRAINT fk_posts_editor_id_fkey FOREIGN KEY (editor_id) REFERENCES fk_authors (id) ON DELETE SET NULL",
+      "ALTER TABLE fk_posts ADD CONSTRAINT fk_posts_reviewer_id_fkey FOREIGN KEY (reviewer_id) REFERENCES fk_authors (id)",
+    ]);
+  });
+});
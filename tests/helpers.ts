@@ -0,0 +1,19 @@
+import { QueryExecutor, SQLQuery } from "../src";
+
+// Executor that records every query and answers with the queued rows, or none
+export function createRecordingExecutor(rows: Record<string, any>[][] = []): QueryExecutor & {
+  queries: SQLQuery[];
+} {
+  const queries: SQLQuery[] = [];
+  return {
+    queries,
+    async execute<T>(query: SQLQuery): Promise<T[]> {
+      queries.push(query);
+      return (rows.shift() ?? []) as T[];
+    },
+    async executeOne<T>(query: SQLQuery): Promise<T | null> {
+      queries.push(query);
+      return ((rows.shift() ?? [])[0] ?? null) as T | null;
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import {
+  expressionIndex,
+  generateCreateIndexSQL,
+  generateDropIndexSQL,
+  getIndexName,
+  index,
+  Migration,
+  nullable,
+  text,
+  uuid,
+} from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = { id: uuid({ primaryKey: true }), email: text(), createdAt: text(), deletedAt: nullable.text() };
+
+describe("indexes", () => {
+  it("renders column and expression indexes", () => {
+    expect(generateCreateIndexSQL("users", fields, index(["email", "createdAt"]))).toBe(
+      "CREATE INDEX users_email_created_at_idx ON users (email, created_at);"
+    );
+    expect(
+      generateCreateIndexSQL("users", fields, index(["email"], { unique: true, where: "deleted_at IS NULL" }), {
+        schema: "app",
+        concurrently: true,
+        ifNotExists: true,
+      })
+    ).toBe("CREATE UNIQUE INDEX CONCURRENTLY IF NOT EXISTS users_email_idx ON app.users (email) WHERE deleted_at IS NULL;");
+    expect(generateCreateIndexSQL("users", fields, expressionIndex("users_lower_email", "lower(email)", { using: "btree" }))).toBe(
+      "CREATE INDEX users_lower_email ON users USING btree ((lower(email)));"
+    );
+    expect(generateDropIndexSQL("users_email_idx", { concurrently: true })).toBe(
+      "DROP INDEX CONCURRENTLY IF EXISTS users_email_idx;"
+    );
+  });
+
+  it("rejects unknown fields and methods and unnamed expressions", () => {
+    expect(() => generateCreateIndexSQL("users", fields, index(["missing"]))).toThrow(
+      "Field 'missing' referenced in index 'users_missing_idx' does not exist in table 'users'"
+    );
+    expect(() => generateCreateIndexSQL("users", fields, index(["email"], { using: "bogus" as any }))).toThrow(
+      "Invalid index method 'bogus'"
+    );
+    expect(() => getIndexName("users", fields, { expression: "lower(email)" })).toThrow(
+      "Expression index on table 'users' must have a name"
+    );
+  });
+
+  it("creates a model's indexes with its table", async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const executor = createRecordingExecutor();
+    await new Migration(executor).createTable(
+      { table: "users", fields, indexes: [index(["email"], { unique: true })] },
+      { concurrentIndexes: true }
+    );
+
+    expect(executor.queries.map((query) => query.sql.split("\n")[0])).toEqual([
+      "CREATE TABLE users (",
+      "CREATE UNIQUE INDEX CONCURRENTLY users_email_idx ON users (email);",
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { belongsTo, belongsToMany, defineModel, hasMany, QueryBuilder, text, uuid } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+defineModel("JoinArticle", {
+  table: "join_articles",
+  fields: {
+    id: uuid({ primaryKey: true }),
+    title: text(),
+    authorId: uuid(),
+    labels: belongsToMany("JoinLabel", "join_article_labels", "articleId", "labelCode"),
+    author: belongsTo("JoinAuthor", "authorId"),
+    comments: hasMany("JoinComment", "articleId"),
+  },
+});
+defineModel("JoinAuthor", {
+  table: "join_authors",
+  fields: {
+    id: uuid({ primaryKey: true }),
+    name: text(),
+  },
+});
+defineModel("JoinLabel", {
+  table: "join_labels",
+  fields: {
+    code: { ...text(), primaryKey: true },
+    name: text(),
+  },
+});
+defineModel("JoinArticleLabel", {
+  table: "join_article_labels",
+  fields: {
+    articleId: uuid(),
+    labelCode: text(),
+  },
+});
+
+describe("joinRelation", () => {
+  it("joins belongsToMany targets on their primary key", () => {
+    const query = new QueryBuilder("join_articles", createRecordingExecutor())
+      .joinRelation("labels")
+      .toSQL();
+
+    expect(query.sql).toBe(
+      "SELECT join_articles.* FROM join_articles" +
+        " INNER JOIN join_article_labels AS labels_pivot ON labels_pivot.article_id = join_articles.id" +
+        " INNER JOIN join_labels AS labels ON labels.code = labels_pivot.label_code"
+    );
+  });
+
+  it("qualifies the model's columns once a relation is joined", async () => {
+    const executor = createRecordingExecutor();
+    await new QueryBuilder<{ id: string; title: string; authorId: string }>("join_articles", executor, {
+      id: uuid({ primaryKey: true }),
+      title: text(),
+      authorId: uuid(),
+    })
+      .joinRelation("author", { type: "left" })
+      .where({ id: "a1" })
+      .orderBy("title")
+      .getMany();
+
+    expect(executor.queries).toEqual([
+      {
+        sql:
+          "SELECT join_articles.* FROM join_articles LEFT JOIN join_authors AS author ON join_articles.author_id = author.id" +
+          " WHERE join_articles.id = $1 ORDER BY join_articles.title ASC",
+        params: ["a1"],
+      },
+    ]);
+  });
+
+  it("rejects relations to models that are not registered", () => {
+    expect(() => new QueryBuilder("join_articles", createRecordingExecutor()).joinRelation("comments")).toThrow(
+      "Model 'JoinComment' of relation 'comments' is not registered"
+    );
+  });
+});
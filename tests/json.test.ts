@@ -0,0 +1,72 @@
+import { json, jsonPath, jsonSet, QueryBuilder, text, uuid } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = { id: uuid({ primaryKey: true }), title: text(), settings: json() };
+
+interface Post {
+  id: string;
+  title: string;
+  settings: any;
+}
+
+const posts = () => new QueryBuilder<Post>("posts", createRecordingExecutor(), fields);
+
+describe("JSONB operators", () => {
+  it("binds documents as jsonb and key names as text", () => {
+    const query = posts()
+      .where({ settings: { contains: { beta: true } } })
+      .andWhere({ settings: { hasKey: "theme" } })
+      .andWhere({ settings: { hasAnyKeys: ["a", "b"] } })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql: "SELECT * FROM posts WHERE settings @> $1::jsonb AND settings ? $2 AND settings ?| $3",
+      params: ['{"beta":true}', "theme", ["a", "b"]],
+    });
+  });
+
+  it("compares values at a path", () => {
+    const query = posts()
+      .where({ settings: { path: ["theme", "color"], eq: "dark", like: "d%" } })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql: "SELECT * FROM posts WHERE settings #> $1 = $2::jsonb AND settings #>> $1 LIKE $3",
+      params: [["theme", "color"], '"dark"', "d%"],
+    });
+  });
+
+  it("selects and orders by paths", () => {
+    const query = posts()
+      .orderBy(jsonPath("settings", ["priority"]), "desc")
+      .select({ id: true, color: jsonPath<string>("settings", ["theme", "color"], { asText: true }) })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql: 'SELECT id, settings #>> $1 AS "color" FROM posts ORDER BY settings #> $2 DESC',
+      params: [["theme", "color"], ["priority"]],
+    });
+  });
+
+  it("updates paths with jsonb_set", () => {
+    const query = posts()
+      .where({ id: "1" })
+      .toSQL("update", { settings: jsonSet(["theme", "color"], "dark").set(["beta"], true) });
+
+    expect(query).toEqual({
+      sql: "UPDATE posts SET settings = jsonb_set(jsonb_set(settings, $1, $2::jsonb, true), $3, $4::jsonb, true) WHERE id = $5 RETURNING *",
+      params: [["theme", "color"], '"dark"', ["beta"], "true", "1"],
+    });
+  });
+
+  it("rejects undefined jsonSet values instead of nulling the column", () => {
+    expect(() => jsonSet(["theme", "color"], undefined)).toThrow(
+      "jsonSet() value for path 'theme.color' is undefined; use null to store JSON null"
+    );
+    expect(() => jsonSet(["theme"], "dark").set(["font"], undefined)).toThrow("value for path 'font' is undefined");
+    expect(jsonSet(["theme"], null).toSQL("settings").toSQL()).toEqual({
+      sql: "jsonb_set(settings, $1, $2::jsonb, true)",
+      params: [["theme"], "null"],
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { enumField, Migration, ModelConfiguration, nullable, uuid } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const silentLogger = { info: () => {}, error: () => {} };
+
+const statementsOf = (migration: Migration) => migration.getOperations().map((operation) => operation.sql);
+
+// Teams reference their captain, who must belong to a team: a cycle with a nullable link
+const teams: ModelConfiguration = {
+  table: "cycle_teams",
+  fields: {
+    id: uuid({ primaryKey: true }),
+    captainId: nullable.uuid({ references: { model: "cycle_players" } }),
+    level: enumField(["junior", "senior"]),
+  },
+};
+const players: ModelConfiguration = {
+  table: "cycle_players",
+  fields: {
+    id: uuid({ primaryKey: true }),
+    teamId: uuid({ references: { model: "cycle_teams", onDelete: "cascade" } }),
+  },
+};
+const categories: ModelConfiguration = {
+  table: "cycle_categories",
+  fields: {
+    id: uuid({ primaryKey: true }),
+    parentId: nullable.uuid({ references: { model: "cycle_categories" } }),
+  },
+};
+
+describe("Migration.createTables", () => {
+  it("adds the foreign key closing a cycle once both tables exist", async () => {
+    const migration = new Migration(createRecordingExecutor(), { dryRun: true, logger: silentLogger });
+    await migration.createTables([{ config: teams }, { config: players }], { schema: "app" });
+
+    const statements = statementsOf(migration);
+    expect(statements[0]).toMatch(/^CREATE TABLE app\.cycle_players/);
+    expect(statements[1]).toContain("CREATE TYPE app.cycle_teams_level_enum AS ENUM ('junior', 'senior');");
+    expect(statements[1]).toContain("  level app.cycle_teams_level_enum NOT NULL,");
+    expect(statements.slice(2)).toEqual([
+      "ALTER TABLE app.cycle_teams ADD CONSTRAINT cycle_teams_captain_id_fkey FOREIGN KEY (captain_id) REFERENCES app.cycle_players (id)",
+      "ALTER TABLE app.cycle_players ADD CONSTRAINT cycle_players_team_id_fkey FOREIGN KEY (team_id) REFERENCES app.cycle_teams (id) ON DELETE CASCADE",
+    ]);
+  });
+
+  it("adds a self-referencing foreign key right after its table", async () => {
+    const migration = new Migration(createRecordingExecutor(), { dryRun: true, logger: silentLogger });
+    await migration.createTables([{ config: categories }]);
+
+    expect(statementsOf(migration)).toEqual([
+      "CREATE TABLE cycle_categories (\n  id UUID NOT NULL,\n  parent_id UUID,\n  PRIMARY KEY (id)\n);",
+      "ALTER TABLE cycle_categories ADD CONSTRAINT cycle_categories_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES cycle_categories (id)",
+    ]);
+  });
+
+  it("rejects a cycle of NOT NULL columns", async () => {
+    const requiredTeams: ModelConfiguration = {
+      ...teams,
+      fields: { ...teams.fields, captainId: uuid({ references: { model: "cycle_players" } }) },
+    };
+    const migration = new Migration(createRecordingExecutor(), { dryRun: true, logger: silentLogger });
+
+    await expect(migration.createTables([{ config: requiredTeams }, { config: players }])).rejects.toThrow(
+      "Foreign keys form a cycle of NOT NULL columns, so no row could ever be inserted: cycle_teams -> cycle_players -> cycle_teams. Make one of the columns nullable"
+    );
+    expect(statementsOf(migration)).toEqual([]);
+  });
+});
+
+describe("Migration.dropTables", () => {
+  it("drops cyclic keys, then the tables, then their enum types in the same schema", async () => {
+    const migration = new Migration(createRecordingExecutor(), { dryRun: true, logger: silentLogger });
+    await migration.dropTables([{ config: teams }, { config: players }], { schema: "app" });
+
+    expect(statementsOf(migration)).toEqual([
+      "ALTER TABLE app.cycle_players DROP CONSTRAINT IF EXISTS cycle_players_team_id_fkey",
+      "DROP TABLE IF EXISTS app.cycle_teams",
+      "DROP TABLE IF EXISTS app.cycle_players",
+      "DROP TYPE IF EXISTS app.cycle_teams_level_enum;",
+    ]);
+  });
+});
+
+describe("Migration dry run", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "querio-migration-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("collects the statements without executing them", async () => {
+    const executor = createRecordingExecutor();
+    const logger = { info: jest.fn(), error: jest.fn() };
+    const migration = new Migration(executor, { dryRun: true, logger });
+
+    await migration.createTables([{ config: categories }]);
+    await expect(migration.execute({ sql: "UPDATE cycle_categories SET parent_id = $1 WHERE id = $2", params: [null, "a'b"] })).resolves.toEqual([]);
+
+    expect(executor.queries).toEqual([]);
+    expect(migration.getOperations().map((operation) => operation.type)).toEqual(["createTable", "addConstraint", "execute"]);
+    expect(migration.getSummary()).toEqual({ statements: 3, operations: { createTable: 1, addConstraint: 1, execute: 1 } });
+
+    migration.reportSummary();
+    expect(logger.info.mock.calls).toEqual([["📋 Dry run: 3 statement(s) (1 createTable, 1 addConstraint, 1 execute)"]]);
+  });
+
+  it("writes the script with a comment before each statement", async () => {
+    const logger = { info: jest.fn(), error: jest.fn() };
+    const migration = new Migration(createRecordingExecutor(), { dryRun: true, logger });
+    await migration.dropTable("cycle_categories", "app");
+    await migration.execute({ sql: "DELETE FROM cycle_categories WHERE id = $1", params: ["a'b"] });
+
+    const file = path.join(directory, "plan.sql");
+    migration.writeScript(file);
+
+    expect(fs.readFileSync(file, "utf8")).toBe(
+      "-- Drop table 'app.cycle_categories'\nDROP TABLE IF EXISTS app.cycle_categories CASCADE;\n\n" +
+        "-- Execute SQL\nDELETE FROM cycle_categories WHERE id = 'a''b';\n"
+    );
+    expect(logger.info).toHaveBeenCalledWith(`📝 Wrote 2 statement(s) to ${file}`);
+  });
+
+  it("runs and records statements outside a dry run", async () => {
+    const executor = createRecordingExecutor();
+    const logger = { info: jest.fn(), error: jest.fn() };
+    const migration = new Migration(executor, { logger });
+    await migration.dropConstraint("cycle_players", "cycle_players_team_id_fkey");
+
+    expect(executor.queries).toEqual([
+      { sql: "ALTER TABLE cycle_players DROP CONSTRAINT IF EXISTS cycle_players_team_id_fkey", params: [] },
+    ]);
+    migration.reportSummary();
+    expect(logger.info.mock.calls).toEqual([
+      ["🗑️ Constraint 'cycle_players_team_id_fkey' dropped from 'cycle_players'"],
+      ["📋 1 statement(s) (1 dropConstraint)"],
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+import { MigrationDefinition, MigrationLogger, MigrationRunner, QueryExecutor, SQLQuery } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+// Listed out of version order; the index migration opts out of the transaction
+const migrations: MigrationDefinition[] = [
+  {
+    version: "20240102000000",
+    name: "create_posts",
+    module: {
+      transaction: false,
+      up: async (_migration, executor) => {
+        await executor.execute({ sql: "CREATE INDEX CONCURRENTLY posts_idx ON posts (id)", params: [] });
+      },
+      down: async (_migration, executor) => {
+        await executor.execute({ sql: "DROP INDEX CONCURRENTLY posts_idx", params: [] });
+      },
+    },
+  },
+  {
+    version: "20240101000000",
+    name: "create_users",
+    module: {
+      up: async (_migration, executor) => {
+        await executor.execute({ sql: "CREATE TABLE users (id INTEGER)", params: [] });
+      },
+      down: async (_migration, executor) => {
+        await executor.execute({ sql: "DROP TABLE users", params: [] });
+      },
+    },
+  },
+];
+
+const createRunner = (executor: QueryExecutor, definitions = migrations) =>
+  new MigrationRunner({ withConnection: (callback) => callback(executor) }, { migrations: definitions });
+
+// Executor that fails on the statements matching fail, recording every query
+function createFailingExecutor(fail: RegExp): QueryExecutor & { queries: string[] } {
+  const queries: string[] = [];
+  return {
+    queries,
+    async execute<T>(query: SQLQuery): Promise<T[]> {
+      queries.push(query.sql);
+      if (fail.test(query.sql)) {
+        throw new Error(`cannot run ${query.sql}`);
+      }
+      return [];
+    },
+    async executeOne<T>(query: SQLQuery): Promise<T | null> {
+      const rows = await this.execute<T>(query);
+      return rows[0] ?? null;
+    },
+  };
+}
+
+const createLoggingRunner = (executor: QueryExecutor, logger: MigrationLogger) =>
+  new MigrationRunner({ withConnection: (callback) => callback(executor) }, { migrations, logger });
+
+// Statements run between taking and releasing the advisory lock, bookkeeping reads excluded
+const statementsOf = (executor: ReturnType<typeof createRecordingExecutor>) =>
+  executor.queries.map((query) => query.sql).filter((sql) => !/^(SELECT|CREATE TABLE IF NOT EXISTS)/.test(sql));
+
+describe("MigrationRunner", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("applies pending migrations in version order under the advisory lock", async () => {
+    const executor = createRecordingExecutor();
+    await expect(createRunner(executor).migrateUp()).resolves.toEqual(["20240101000000", "20240102000000"]);
+
+    expect(executor.queries[0]).toEqual({ sql: "SELECT pg_advisory_lock(hashtext($1))", params: ["querio_migrations"] });
+    expect(executor.queries[executor.queries.length - 1]?.sql).toBe("SELECT pg_advisory_unlock(hashtext($1))");
+    expect(statementsOf(executor)).toEqual([
+      "BEGIN",
+      "CREATE TABLE users (id INTEGER)",
+      "INSERT INTO querio_migrations (version, name) VALUES ($1, $2)",
+      "COMMIT",
+      "CREATE INDEX CONCURRENTLY posts_idx ON posts (id)",
+      "INSERT INTO querio_migrations (version, name) VALUES ($1, $2)",
+    ]);
+  });
+
+  it("reverts the latest applied migrations", async () => {
+    const applied = [
+      { version: "20240101000000", applied_at: new Date(0) },
+      { version: "20240102000000", applied_at: new Date(0) },
+    ];
+    const executor = createRecordingExecutor([[], [], [{ name: "querio_migrations" }], applied]);
+    await expect(createRunner(executor).migrateDown()).resolves.toEqual(["20240102000000"]);
+
+    expect(statementsOf(executor)).toEqual([
+      "DROP INDEX CONCURRENTLY posts_idx",
+      "DELETE FROM querio_migrations WHERE version = $1",
+    ]);
+    await expect(createRunner(executor).migrateDown(0)).rejects.toThrow("Invalid number of steps '0'");
+  });
+
+  it("rolls back and names the migration that failed", async () => {
+    const failing: MigrationDefinition = {
+      version: "20240103000000",
+      name: "broken",
+      module: {
+        up: async () => {
+          throw new Error("syntax error");
+        },
+        down: async () => {},
+      },
+    };
+    const executor = createRecordingExecutor();
+
+    await expect(createRunner(executor, [failing]).migrateUp()).rejects.toThrow(
+      "Migration 20240103000000_broken failed (up): syntax error"
+    );
+    expect(statementsOf(executor)).toEqual(["BEGIN", "ROLLBACK"]);
+  });
+
+  it("collects the statements of a dry run without the lock or any writes", async () => {
+    const executor = createRecordingExecutor();
+    const logger = { info: jest.fn(), error: jest.fn() };
+    const runner = new MigrationRunner(
+      { withConnection: (callback) => callback(executor) },
+      { migrations, dryRun: true, logger }
+    );
+    await expect(runner.migrateUp()).resolves.toEqual(["20240101000000", "20240102000000"]);
+
+    // Only the check for the migrations table reaches the database
+    expect(executor.queries).toEqual([{ sql: "SELECT to_regclass($1)::text AS name", params: ["querio_migrations"] }]);
+    expect(runner.getScript()).toContain(
+      "-- Execute SQL\nCREATE TABLE users (id INTEGER);\n\n-- Execute SQL\nINSERT INTO querio_migrations (version, name) VALUES ('20240101000000', 'create_users');\n"
+    );
+    expect(logger.info.mock.calls.map(([message]) => message)).toEqual([
+      "📝 Would apply migration 20240101000000_create_users",
+      "📝 Would apply migration 20240102000000_create_posts",
+      "📋 Dry run: 7 statement(s) (7 execute)",
+    ]);
+  });
+
+  it("reports the migration error with its cause", async () => {
+    const executor = createFailingExecutor(/^CREATE TABLE users/);
+    const logger = { info: jest.fn(), error: jest.fn() };
+
+    const error = await createLoggingRunner(executor, logger).migrateUp().catch((caught: Error) => caught);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toBe(
+      "Migration 20240101000000_create_users failed (up): cannot run CREATE TABLE users (id INTEGER)"
+    );
+    expect(((error as Error).cause as Error).message).toBe("cannot run CREATE TABLE users (id INTEGER)");
+    expect(executor.queries).toContain("ROLLBACK");
+    expect(executor.queries[executor.queries.length - 1]).toBe("SELECT pg_advisory_unlock(hashtext($1))");
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  it("keeps the migration error when ROLLBACK fails", async () => {
+    const executor = createFailingExecutor(/^(CREATE TABLE users|ROLLBACK)/);
+    const logger = { info: jest.fn(), error: jest.fn() };
+
+    const error = await createLoggingRunner(executor, logger).migrateUp().catch((caught: Error) => caught);
+
+    expect((error as Error).message).toBe(
+      "Migration 20240101000000_create_users failed (up): cannot run CREATE TABLE users (id INTEGER)"
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      "Rollback of migration 20240101000000_create_users failed",
+      new Error("cannot run ROLLBACK")
+    );
+  });
+
+  it("rejects duplicate versions", () => {
+    const duplicate = { ...(migrations[1] as MigrationDefinition), name: "other" };
+    expect(() => createRunner(createRecordingExecutor(), [...migrations, duplicate]).loadMigrations()).toThrow(
+      "Duplicate migration version '20240101000000'"
+    );
+  });
+});
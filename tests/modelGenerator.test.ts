@@ -0,0 +1,131 @@
+import { DatabaseSchema, generateModelFiles, IntrospectedColumn } from "../src";
+
+function column(name: string, dataType: string, nullable = false, defaultValue: string | null = null): IntrospectedColumn {
+  return { name, dataType, nullable, default: defaultValue, generated: false };
+}
+
+const schema: DatabaseSchema = {
+  enums: { user_status: ["active", "banned"] },
+  tables: {
+    users: {
+      name: "users",
+      columns: [
+        column("id", "uuid", false, "gen_random_uuid()"),
+        column("email", "character varying(255)"),
+        column("status", "user_status", false, "'active'::user_status"),
+        column("nickname", "text", true),
+        column("score", "numeric(10,2)", false, "0"),
+        column("tags", "text[]", false, "'{}'::text[]"),
+        column("created_at", "timestamp with time zone", false, "now()"),
+      ],
+      constraints: [
+        { name: "users_pkey", type: "primary", columns: ["id"], definition: "PRIMARY KEY (id)" },
+        { name: "users_email_key", type: "unique", columns: ["email"], definition: "UNIQUE (email)" },
+      ],
+      indexes: [],
+    },
+    posts: {
+      name: "posts",
+      columns: [column("id", "integer"), column("author_id", "uuid"), column("editor_id", "uuid", true), column("location", "point", true)],
+      constraints: [
+        { name: "posts_pkey", type: "primary", columns: ["id"], definition: "PRIMARY KEY (id)" },
+        {
+          name: "posts_author_id_fkey",
+          type: "foreign",
+          columns: ["author_id"],
+          definition: "FOREIGN KEY (author_id) REFERENCES users(id) ON DELETE CASCADE",
+          referencedTable: "users",
+          referencedColumns: ["id"],
+          onDelete: "cascade",
+        },
+        {
+          name: "posts_editor_id_fkey",
+          type: "foreign",
+          columns: ["editor_id"],
+          definition: "FOREIGN KEY (editor_id) REFERENCES users(id)",
+          referencedTable: "users",
+          referencedColumns: ["id"],
+        },
+      ],
+      indexes: [],
+    },
+    profiles: {
+      name: "profiles",
+      columns: [column("id", "integer"), column("user_id", "uuid")],
+      constraints: [
+        { name: "profiles_pkey", type: "primary", columns: ["id"], definition: "PRIMARY KEY (id)" },
+        { name: "profiles_user_id_key", type: "unique", columns: ["user_id"], definition: "UNIQUE (user_id)" },
+        {
+          name: "profiles_user_id_fkey",
+          type: "foreign",
+          columns: ["user_id"],
+          definition: "FOREIGN KEY (user_id) REFERENCES users(id)",
+          referencedTable: "users",
+          referencedColumns: ["id"],
+        },
+      ],
+      indexes: [],
+    },
+    querio_migrations: {
+      name: "querio_migrations",
+      columns: [column("version", "text")],
+      constraints: [],
+      indexes: [],
+    },
+  },
+};
+
+function sourceOf(fileName: string, options: Parameters<typeof generateModelFiles>[1] = {}): string {
+  const file = generateModelFiles(schema, options).find((candidate) => candidate.fileName === fileName);
+  return file ? file.source : "";
+}
+
+describe("generateModelFiles", () => {
+  it("generates one file per table plus an index, skipping the migrations table", () => {
+    expect(generateModelFiles(schema).map((file) => file.fileName)).toEqual(["Post.ts", "Profile.ts", "User.ts", "index.ts"]);
+    expect(sourceOf("index.ts")).toBe(
+      'export { Post } from "./Post";\nexport { Profile } from "./Profile";\nexport { User } from "./User";\n'
+    );
+    expect(generateModelFiles(schema, { tables: ["users"] }).map((file) => file.fileName)).toEqual(["User.ts", "index.ts"]);
+  });
+
+  it("maps column types, nullability, defaults and enums", () => {
+    expect(sourceOf("User.ts", { importPath: "../db" })).toBe(
+      [
+        'import { array, decimal, defineModel, enumField, hasMany, hasOne, nullable, text, timestamp, uuid, varchar } from "../db";',
+        "",
+        'export const User = defineModel("User", {',
+        '  table: "users",',
+        "  fields: {",
+        '    id: uuid({ primaryKey: true, default: "gen_random_uuid()" }),',
+        "    email: varchar({ length: 255, unique: true }),",
+        '    status: enumField(["active", "banned"], { enumName: "user_status", default: "active" }),',
+        "    nickname: nullable.text(),",
+        "    score: decimal({ precision: 10, scale: 2, default: 0 }),",
+        "    // Default not generated: '{}'::text[]",
+        "    tags: array(text()),",
+        '    createdAt: timestamp({ default: "now()" }),',
+        "  },",
+        "  relations: {",
+        '    postsByAuthor: hasMany("Post", "authorId"),',
+        '    postsByEditor: hasMany("Post", "editorId"),',
+        '    profile: hasOne("Profile", "userId"),',
+        "  },",
+        "});",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("names relations after foreign key columns and keeps referential actions", () => {
+    const post = sourceOf("Post.ts");
+    expect(post).toContain('authorId: uuid({ references: { model: "User", field: "id", onDelete: "cascade" } }),');
+    expect(post).toContain("editorId: nullable.uuid(),");
+    expect(post).toContain("    // Unsupported type 'point'\n    location: nullable.text(),");
+    expect(post).toContain('    author: belongsTo("User", "authorId"),\n    editor: belongsTo("User", "editorId"),');
+
+    const profile = sourceOf("Profile.ts");
+    expect(profile).toContain("userId: uuid({ unique: true }),");
+    expect(profile).toContain('user: belongsTo("User", "userId"),');
+  });
+});
@@ -0,0 +1,259 @@
+import {
+  compareSchema,
+  createConstraints,
+  customConstraint,
+  DatabaseSchema,
+  integer,
+  IntrospectedConstraint,
+  IntrospectedIndex,
+  IntrospectedTable,
+  json,
+  ModelConfiguration,
+  nullable,
+  uuid,
+  varchar,
+} from "../src";
+
+const authors: ModelConfiguration = { table: "diff_authors", fields: { id: uuid({ primaryKey: true }) } };
+
+const posts: ModelConfiguration = {
+  table: "diff_posts",
+  fields: {
+    id: uuid({ primaryKey: true }),
+    authorId: nullable.uuid({ references: { model: "diff_authors", onDelete: "setNull" } }),
+    code: varchar({ length: 8, minLength: 2 }),
+    rating: integer({ min: -1, max: 5 }),
+    settings: json({ default: { theme: "dark", flags: { beta: true, alpha: false } } }),
+  },
+  constraints: createConstraints({ custom: [customConstraint("diff_posts_code_rating", "CHECK (code <> 'x' OR rating > 0)")] }),
+};
+
+const primaryKey = (table: string): IntrospectedConstraint => ({
+  name: `${table}_pkey`,
+  type: "primary",
+  columns: ["id"],
+  definition: "PRIMARY KEY (id)",
+});
+
+// The posts table as PostgreSQL reports it when it matches the model
+function introspectedPosts(): IntrospectedTable {
+  return {
+    name: "diff_posts",
+    columns: [
+      { name: "id", dataType: "uuid", nullable: false, default: null, generated: false },
+      { name: "author_id", dataType: "uuid", nullable: true, default: null, generated: false },
+      { name: "code", dataType: "character varying(8)", nullable: false, default: null, generated: false },
+      { name: "rating", dataType: "integer", nullable: false, default: null, generated: false },
+      {
+        name: "settings",
+        dataType: "jsonb",
+        nullable: false,
+        default: `'{"flags": {"beta": true, "alpha": false}, "theme": "dark"}'::jsonb`,
+        generated: false,
+      },
+    ],
+    constraints: [
+      primaryKey("diff_posts"),
+      {
+        name: "diff_posts_author_id_fkey",
+        type: "foreign",
+        columns: ["author_id"],
+        definition: "FOREIGN KEY (author_id) REFERENCES diff_authors(id) ON DELETE SET NULL",
+        referencedTable: "diff_authors",
+        referencedColumns: ["id"],
+        onDelete: "setNull",
+      },
+      {
+        name: "diff_posts_code_check",
+        type: "check",
+        columns: ["code"],
+        definition: "CHECK ((char_length((code)::text) >= 2))",
+      },
+      {
+        name: "diff_posts_rating_check",
+        type: "check",
+        columns: ["rating"],
+        definition: "CHECK (((rating >= '-1'::integer) AND (rating <= 5)))",
+      },
+      {
+        name: "diff_posts_code_rating",
+        type: "check",
+        columns: ["code", "rating"],
+        definition: "CHECK ((((code)::text <> 'x'::text) OR (rating > 0)))",
+      },
+    ],
+    indexes: [],
+  };
+}
+
+function database(table: IntrospectedTable): DatabaseSchema {
+  return {
+    tables: {
+      diff_authors: {
+        name: "diff_authors",
+        columns: [{ name: "id", dataType: "uuid", nullable: false, default: null, generated: false }],
+        constraints: [primaryKey("diff_authors")],
+        indexes: [],
+      },
+      diff_posts: table,
+    },
+    enums: {},
+  };
+}
+
+const operationsFor = (table: IntrospectedTable, model: ModelConfiguration = posts) =>
+  compareSchema([authors, model], database(table)).map(({ type, sql, destructive }) => ({ type, sql, destructive }));
+
+const index = (name: string, columns: string[], unique = false): IntrospectedIndex => ({
+  name,
+  columns,
+  unique,
+  primary: false,
+  method: "btree",
+  predicate: null,
+  definition: `CREATE ${unique ? "UNIQUE " : ""}INDEX ${name} ON public.diff_posts USING btree (${columns.join(", ")})`,
+  constraint: false,
+});
+
+describe("compareSchema", () => {
+  it("finds nothing to do for a matching table", () => {
+    expect(operationsFor(introspectedPosts())).toEqual([]);
+  });
+
+  it("replaces a foreign key whose actions changed", () => {
+    const table = introspectedPosts();
+    const foreignKey = table.constraints[1] as IntrospectedConstraint;
+    foreignKey.onDelete = "cascade";
+    foreignKey.onUpdate = "restrict";
+
+    expect(operationsFor(table)).toEqual([
+      {
+        type: "dropConstraint",
+        sql: "ALTER TABLE diff_posts DROP CONSTRAINT diff_posts_author_id_fkey;",
+        destructive: false,
+      },
+      {
+        type: "addConstraint",
+        sql:
+          "ALTER TABLE diff_posts ADD CONSTRAINT diff_posts_author_id_fkey FOREIGN KEY (author_id)" +
+          " REFERENCES diff_authors (id) ON DELETE SET NULL;",
+        destructive: false,
+      },
+    ]);
+  });
+
+  it("adds, replaces and drops check constraints", () => {
+    const table = introspectedPosts();
+    table.constraints = table.constraints.filter((constraint) => constraint.name !== "diff_posts_code_check");
+    (table.constraints[2] as IntrospectedConstraint).definition = "CHECK (((rating >= 0) AND (rating <= 5)))";
+    table.constraints.push({ name: "diff_posts_legacy", type: "check", columns: ["code"], definition: "CHECK ((code IS NOT NULL))" });
+
+    expect(operationsFor(table)).toEqual([
+      {
+        type: "dropConstraint",
+        sql: "ALTER TABLE diff_posts DROP CONSTRAINT diff_posts_rating_check;",
+        destructive: false,
+      },
+      { type: "dropConstraint", sql: "ALTER TABLE diff_posts DROP CONSTRAINT diff_posts_legacy;", destructive: false },
+      {
+        type: "addConstraint",
+        sql: "ALTER TABLE diff_posts ADD CONSTRAINT diff_posts_code_check CHECK (char_length(code) >= 2);",
+        destructive: false,
+      },
+      {
+        type: "addConstraint",
+        sql: "ALTER TABLE diff_posts ADD CONSTRAINT diff_posts_rating_check CHECK (rating >= -1 AND rating <= 5);",
+        destructive: false,
+      },
+    ]);
+  });
+
+  it("compares jsonb defaults by value", () => {
+    const table = introspectedPosts();
+    (table.columns[4] as IntrospectedTable["columns"][number]).default = `'{"theme": "light"}'::jsonb`;
+
+    expect(operationsFor(table)).toEqual([
+      {
+        type: "setDefault",
+        sql: `ALTER TABLE diff_posts ALTER COLUMN settings SET DEFAULT '{"theme":"dark","flags":{"beta":true,"alpha":false}}';`,
+        destructive: false,
+      },
+    ]);
+  });
+
+  it("keeps custom constraints and marks dropped unique and foreign keys destructive", () => {
+    const model: ModelConfiguration = {
+      ...posts,
+      constraints: createConstraints({
+        custom: [
+          ...(posts.constraints?.custom || []),
+          customConstraint("diff_posts_code_rating_key", "UNIQUE (code, rating)"),
+          customConstraint("diff_posts_editor_fkey", "FOREIGN KEY (author_id) REFERENCES diff_authors (id)"),
+          customConstraint("diff_posts_rating_key", "UNIQUE (rating)"),
+        ],
+      }),
+    };
+    const table = introspectedPosts();
+    table.constraints.push(
+      {
+        name: "diff_posts_code_rating_key",
+        type: "unique",
+        columns: ["code", "rating"],
+        definition: "UNIQUE (code, rating)",
+      },
+      {
+        name: "diff_posts_editor_fkey",
+        type: "foreign",
+        columns: ["author_id"],
+        definition: "FOREIGN KEY (author_id) REFERENCES diff_authors(id)",
+        referencedTable: "diff_authors",
+        referencedColumns: ["id"],
+      },
+      { name: "diff_posts_code_key", type: "unique", columns: ["code"], definition: "UNIQUE (code)" },
+      {
+        name: "diff_posts_legacy_fkey",
+        type: "foreign",
+        columns: ["author_id"],
+        definition: "FOREIGN KEY (author_id) REFERENCES diff_authors(id)",
+        referencedTable: "diff_authors",
+        referencedColumns: ["id"],
+      }
+    );
+
+    expect(operationsFor(table, model)).toEqual([
+      { type: "dropConstraint", sql: "ALTER TABLE diff_posts DROP CONSTRAINT diff_posts_code_key;", destructive: true },
+      {
+        type: "dropConstraint",
+        sql: "ALTER TABLE diff_posts DROP CONSTRAINT diff_posts_legacy_fkey;",
+        destructive: true,
+      },
+      {
+        type: "addConstraint",
+        sql: "ALTER TABLE diff_posts ADD CONSTRAINT diff_posts_rating_key UNIQUE (rating);",
+        destructive: false,
+      },
+    ]);
+  });
+
+  it("replaces indexes whose definition changed", () => {
+    const model: ModelConfiguration = {
+      ...posts,
+      indexes: [{ fields: ["code"] }, { fields: ["rating"], unique: true }, { name: "diff_posts_author_idx", fields: ["authorId"] }],
+    };
+    const table = introspectedPosts();
+    table.indexes = [
+      index("diff_posts_code_idx", ["code"]),
+      index("diff_posts_rating_idx", ["rating"]),
+      index("diff_posts_author_idx", ["author_id", "code"]),
+      index("diff_posts_legacy_idx", ["rating"]),
+    ];
+
+    expect(operationsFor(table, model)).toEqual([
+      { type: "dropIndex", sql: "DROP INDEX IF EXISTS diff_posts_rating_idx;", destructive: false },
+      { type: "dropIndex", sql: "DROP INDEX IF EXISTS diff_posts_author_idx;", destructive: false },
+      { type: "dropIndex", sql: "DROP INDEX IF EXISTS diff_posts_legacy_idx;", destructive: false },
+      { type: "createIndex", sql: "CREATE UNIQUE INDEX diff_posts_rating_idx ON diff_posts (rating);", destructive: false },
+      { type: "createIndex", sql: "CREATE INDEX diff_posts_author_idx ON diff_posts (author_id);", destructive: false },
+    ]);
+  });
+});
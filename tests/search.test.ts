@@ -0,0 +1,61 @@
+import { generateCreateTableSQL, QueryBuilder, text, tsRank, tsvector, uuid } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = {
+  id: uuid({ primaryKey: true }),
+  title: text(),
+  description: text(),
+  searchVector: tsvector({ generatedFrom: ["title", "description"], weights: { title: "A" } }),
+};
+
+interface Post {
+  id: string;
+  title: string;
+  description: string;
+  searchVector: string;
+}
+
+const posts = () => new QueryBuilder<Post>("posts", createRecordingExecutor(), fields);
+
+describe("full-text search", () => {
+  it("matches tsvector columns and converts text columns", () => {
+    const query = posts()
+      .where({ searchVector: { search: "red shoes" } })
+      .andWhere({ title: { search: { query: "rouge", language: "french" } } })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql:
+        "SELECT * FROM posts WHERE search_vector @@ websearch_to_tsquery('english', $1)" +
+        " AND to_tsvector('french', title) @@ websearch_to_tsquery('french', $2)",
+      params: ["red shoes", "rouge"],
+    });
+  });
+
+  it("ranks matches with ts_rank", () => {
+    const query = posts()
+      .orderBy(tsRank("searchVector", "shoes"), "desc")
+      .select({ id: true, rank: tsRank("searchVector", "shoes") })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql:
+        "SELECT id, ts_rank(search_vector, websearch_to_tsquery('english', $1)) AS \"rank\" FROM posts" +
+        " ORDER BY ts_rank(search_vector, websearch_to_tsquery('english', $2)) DESC",
+      params: ["shoes", "shoes"],
+    });
+  });
+
+  it("generates weighted search vector columns", () => {
+    expect(generateCreateTableSQL("posts", fields)).toContain(
+      "  search_vector TSVECTOR GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce(title, '')), 'A')" +
+        " || to_tsvector('english', coalesce(description, ''))) STORED,"
+    );
+  });
+
+  it("rejects languages that are not identifiers", () => {
+    expect(() => posts().where({ title: { search: { query: "x", language: "klingon'" } } }).toSQL()).toThrow(
+      "Invalid text search language 'klingon''"
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { integer, QueryBuilder, raw, ref, sql, text, uuid } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = { id: uuid({ primaryKey: true }), name: text(), age: integer() };
+
+interface User {
+  id: string;
+  name: string;
+  age: number;
+}
+
+describe("sql fragments", () => {
+  it("binds values and inlines nested fragments, raw text and references", () => {
+    const fragment = sql`${raw("created_at")} > now() - ${"7 days"}::interval AND ${ref("users.id")} = ${sql`any(${[1, 2]})`}`;
+
+    expect(fragment.toSQL(3)).toEqual({
+      sql: "created_at > now() - $3::interval AND users.id = any($4)",
+      params: ["7 days", [1, 2]],
+    });
+  });
+
+  it("numbers fragment parameters after the surrounding conditions", async () => {
+    const executor = createRecordingExecutor();
+    await new QueryBuilder<User>("users", executor, fields)
+      .leftJoin("orders", sql`orders.user_id = users.id AND orders.status = ${"paid"}`)
+      .where({ name: "a" })
+      .andWhere(sql`lower(name) = ${"b"}`)
+      .andWhere({ age: { gt: sql`${17} + 1` } })
+      .orderBy(sql`similarity(name, ${"c"})`, "desc")
+      .getMany();
+
+    expect(executor.queries).toEqual([
+      {
+        sql:
+          "SELECT users.* FROM users LEFT JOIN orders ON orders.user_id = users.id AND orders.status = $1" +
+          " WHERE users.name = $2 AND (lower(name) = $3) AND users.age > $4 + 1 ORDER BY similarity(name, $5) DESC",
+        params: ["paid", "a", "b", 17, "c"],
+      },
+    ]);
+  });
+
+  it("selects computed columns", async () => {
+    const executor = createRecordingExecutor([[{ id: "1", score: 0.5 }]]);
+    const rows = await new QueryBuilder<User>("users", executor, fields)
+      .select({ id: true, score: sql<number>`similarity(name, ${"c"})` })
+      .getMany();
+
+    expect(rows).toEqual([{ id: "1", score: 0.5 }]);
+    expect(executor.queries[0]?.sql).toBe('SELECT id, similarity(name, $1) AS "score" FROM users');
+  });
+});
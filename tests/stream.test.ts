@@ -0,0 +1,65 @@
+import { PoolClient } from "pg";
+import { TransactionExecutor } from "../src/adapters/postgres";
+
+// PoolClient double whose query() answers from a handler
+function createClient(handler: (sql: string) => { rows: unknown[] }) {
+  const statements: string[] = [];
+  const client = {
+    async query(sql: string) {
+      statements.push(sql);
+      return handler(sql);
+    },
+  } as unknown as PoolClient;
+  return { client, statements };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+const query = { sql: "SELECT * FROM events", params: [] };
+
+describe("TransactionExecutor.stream", () => {
+  it("fetches batches until a short one and closes the cursor", async () => {
+    let fetches = 0;
+    const { client, statements } = createClient((sql) =>
+      sql.startsWith("FETCH") ? { rows: ++fetches === 1 ? [1, 2] : [3] } : { rows: [] }
+    );
+
+    const rows = await collect(new TransactionExecutor(client).stream(query, { batchSize: 2 }));
+
+    expect(rows).toEqual([1, 2, 3]);
+    expect(statements.map((sql) => sql.replace(/querio_cursor_\d+/, "cursor"))).toEqual([
+      "DECLARE cursor NO SCROLL CURSOR FOR SELECT * FROM events",
+      "FETCH 2 FROM cursor",
+      "FETCH 2 FROM cursor",
+      "CLOSE cursor",
+    ]);
+  });
+
+  it("rethrows a failed FETCH instead of the error of closing the cursor", async () => {
+    const { client, statements } = createClient((sql) => {
+      if (sql.startsWith("FETCH")) throw new Error("canceling statement due to statement timeout");
+      if (sql.startsWith("CLOSE")) throw new Error("current transaction is aborted");
+      return { rows: [] };
+    });
+
+    await expect(collect(new TransactionExecutor(client).stream(query))).rejects.toThrow(
+      "canceling statement due to statement timeout"
+    );
+    expect(statements.some((sql) => sql.startsWith("CLOSE"))).toBe(false);
+  });
+
+  it.each([0, -5, 2.5, NaN])("rejects batch size %p", async (batchSize) => {
+    const { client, statements } = createClient(() => ({ rows: [] }));
+
+    await expect(collect(new TransactionExecutor(client).stream(query, { batchSize }))).rejects.toThrow(
+      "Invalid stream batch size"
+    );
+    expect(statements).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { boolean, QueryBuilder, ref, text, uuid } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const userFields = { id: uuid({ primaryKey: true }), name: text() };
+const invoiceFields = { id: uuid({ primaryKey: true }), userId: uuid(), paid: boolean() };
+
+interface User {
+  id: string;
+  name: string;
+}
+
+interface Invoice {
+  id: string;
+  userId: string;
+  paid: boolean;
+}
+
+const executor = createRecordingExecutor();
+const users = () => new QueryBuilder<User>("users", executor, userFields);
+const invoices = () => new QueryBuilder<Invoice>("invoices", executor, invoiceFields);
+
+describe("subquery conditions", () => {
+  it("numbers the parameters of IN subqueries after the outer ones", () => {
+    const paidUserIds = invoices().where({ paid: true }).select({ userId: true });
+    const query = users()
+      .where({ name: { like: "A%" } })
+      .andWhere({ id: { notIn: paidUserIds } })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql: "SELECT * FROM users WHERE name LIKE $1 AND id NOT IN (SELECT user_id FROM invoices WHERE paid = $2)",
+      params: ["A%", true],
+    });
+  });
+
+  it("rejects IN subqueries that do not select exactly one column", () => {
+    expect(() => users().where({ id: { in: invoices() as any } }).toSQL()).toThrow(
+      "IN / NOT IN subqueries must select exactly one column"
+    );
+    expect(() =>
+      users()
+        .where({ id: { in: invoices().select({ id: true, userId: true }) } })
+        .toSQL()
+    ).toThrow("IN / NOT IN subqueries must select exactly one column");
+  });
+
+  it("compiles correlated EXISTS conditions", () => {
+    const query = users()
+      .where({ EXISTS: invoices().where({ userId: ref("users.id"), paid: false }) })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql: "SELECT * FROM users WHERE EXISTS (SELECT 1 FROM invoices WHERE user_id = users.id AND paid = $1)",
+      params: [false],
+    });
+  });
+});
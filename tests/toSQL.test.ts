@@ -0,0 +1,103 @@
+import { boolean, integer, QueryBuilder, raw, ScopedQueryBuilder, sql, text, timestamp, uuid } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = {
+  id: uuid({ primaryKey: true }),
+  name: text(),
+  age: integer(),
+  isActive: boolean(),
+  createdAt: timestamp(),
+};
+
+interface User {
+  id: string;
+  name: string;
+  age: number;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+const users = (executor = createRecordingExecutor()) => new QueryBuilder<User>("users", executor, fields);
+
+describe("toSQL", () => {
+  it("renders a select with conditions, ordering and paging", () => {
+    const query = users()
+      .where({ isActive: true, age: { gte: 18, lt: 65 } })
+      .orWhere({ name: { ilike: "a%" } })
+      .orderBy("createdAt", "desc")
+      .limit(10)
+      .offset(20)
+      .toSQL();
+
+    expect(query).toEqual({
+      sql:
+        "SELECT * FROM users WHERE (is_active = $1 AND age >= $2 AND age < $3 OR name ILIKE $4)" +
+        " ORDER BY created_at DESC LIMIT $5 OFFSET $6",
+      params: [true, 18, 65, "a%", 10, 20],
+    });
+  });
+
+  it("renders count, update, delete and insert statements", () => {
+    const query = users().where({ isActive: false });
+
+    expect(query.toSQL("count")).toEqual({
+      sql: "SELECT COUNT(*) as count FROM users WHERE is_active = $1",
+      params: [false],
+    });
+    expect(query.toSQL("update", { name: "x", age: 3 })).toEqual({
+      sql: "UPDATE users SET name = $1, age = $2 WHERE is_active = $3 RETURNING *",
+      params: ["x", 3, false],
+    });
+    expect(query.toSQL("delete")).toEqual({
+      sql: "DELETE FROM users WHERE is_active = $1 RETURNING *",
+      params: [false],
+    });
+    expect(users().toSQL("insert", [{ name: "a", age: 1 }, { name: "b" }])).toEqual({
+      sql: "INSERT INTO users (age, name) VALUES ($1, $2), ($3, $4) RETURNING *",
+      params: [1, "a", null, "b"],
+    });
+  });
+
+  it("counts the groups of a grouped query", () => {
+    expect(users().groupBy("age").having({ age: { gt: 1 } }).toSQL("count")).toEqual({
+      sql: "SELECT COUNT(*) as count FROM (SELECT 1 FROM users GROUP BY age HAVING age > $1) as grouped_count",
+      params: [1],
+    });
+  });
+
+  it("renumbers the parameters of sql fragments", () => {
+    const query = users()
+      .where({ name: "a" })
+      .andWhere(sql`lower(name) = ${"b"} OR ${raw("age")} > ${3}`)
+      .select({ id: true, score: sql<number>`similarity(name, ${"c"})` })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql: 'SELECT id, similarity(name, $1) AS "score" FROM users WHERE name = $2 AND (lower(name) = $3 OR age > $4)',
+      params: ["c", "a", "b", 3],
+    });
+  });
+
+  it("prefixes the select with EXPLAIN options", async () => {
+    const executor = createRecordingExecutor([[{ "QUERY PLAN": [{ Plan: {} }] }]]);
+    const plan = await users(executor).where({ age: 1 }).explain({ analyze: true, format: "json" });
+
+    expect(plan).toEqual([{ Plan: {} }]);
+    expect(executor.queries[0]).toEqual({
+      sql: "EXPLAIN (ANALYZE, FORMAT JSON) SELECT * FROM users WHERE age = $1",
+      params: [1],
+    });
+  });
+
+  it("forwards the operation and its data from a scoped query", () => {
+    const scoped = new ScopedQueryBuilder(users().where({ isActive: true }), {});
+
+    expect(scoped.toSQL("update", { age: 2 })).toEqual({
+      sql: "UPDATE users SET age = $1 WHERE is_active = $2 RETURNING *",
+      params: [2, true],
+    });
+    expect(scoped.toSQL("upsert", { name: "a" }, { onConflict: ["name"], ignore: true }).sql).toBe(
+      "INSERT INTO users (name) VALUES ($1) ON CONFLICT (name) DO NOTHING RETURNING *"
+    );
+  });
+});
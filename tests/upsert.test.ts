@@ -0,0 +1,108 @@
+import { QueryBuilder, text, timestamp, uuid } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = { id: uuid({ primaryKey: true }), email: text(), name: text(), updatedAt: timestamp() };
+
+interface User {
+  id: string;
+  email: string;
+  name: string;
+  updatedAt: Date;
+}
+
+const users = (executor = createRecordingExecutor()) => new QueryBuilder<User>("users", executor, fields);
+
+describe("upserts", () => {
+  it("merges the given fields on a column conflict", () => {
+    expect(
+      users().toSQL("upsert", { email: "a@example.com", name: "A" }, { onConflict: ["email"], merge: ["name"] })
+    ).toEqual({
+      sql: "INSERT INTO users (email, name) VALUES ($1, $2) ON CONFLICT (email) DO UPDATE SET name = EXCLUDED.name RETURNING *",
+      params: ["a@example.com", "A"],
+    });
+  });
+
+  it("merges every inserted field except the target by default", () => {
+    const { sql } = users().toSQL(
+      "upsert",
+      [{ email: "a@example.com", name: "A" }, { email: "b@example.com" }],
+      { onConflict: ["email"] }
+    );
+    expect(sql).toBe(
+      "INSERT INTO users (email, name) VALUES ($1, $2), ($3, $4) ON CONFLICT (email) DO UPDATE SET name = EXCLUDED.name RETURNING *"
+    );
+  });
+
+  it("ignores conflicts on a named constraint or on any constraint", () => {
+    expect(users().toSQL("upsert", { email: "a@example.com" }, { onConflict: "users_email_key", ignore: true }).sql).toBe(
+      "INSERT INTO users (email) VALUES ($1) ON CONFLICT ON CONSTRAINT users_email_key DO NOTHING RETURNING *"
+    );
+    expect(users().toSQL("upsert", { email: "a@example.com" }, { ignore: true }).sql).toBe(
+      "INSERT INTO users (email) VALUES ($1) ON CONFLICT DO NOTHING RETURNING *"
+    );
+  });
+
+  it("rejects constraint names that are not identifiers", () => {
+    expect(() =>
+      users().toSQL("upsert", { email: "a@example.com" }, { onConflict: "x DO NOTHING; DROP TABLE users; --" })
+    ).toThrow("Invalid constraint name");
+  });
+
+  it("runs an insert once and resolves to a promise", async () => {
+    const executor = createRecordingExecutor([[{ id: "1", email: "a@example.com" }]]);
+    const pending = users(executor).insert({ email: "a@example.com" });
+
+    expect(pending).toBeInstanceOf(Promise);
+    await pending;
+    await pending;
+    expect(executor.queries).toHaveLength(1);
+  });
+
+  it("turns insert() into an upsert with onConflict().merge()", async () => {
+    const executor = createRecordingExecutor([[{ id: "1", email: "a@example.com", name: "A" }]]);
+    const user = await users(executor)
+      .insert({ email: "a@example.com", name: "A" })
+      .onConflict(["email"])
+      .merge(["name"]);
+
+    expect(user).toEqual({ id: "1", email: "a@example.com", name: "A" });
+    expect(executor.queries).toEqual([
+      {
+        sql: "INSERT INTO users (email, name) VALUES ($1, $2) ON CONFLICT (email) DO UPDATE SET name = EXCLUDED.name RETURNING *",
+        params: ["a@example.com", "A"],
+      },
+    ]);
+  });
+
+  it("merges every inserted field but the target, or ignores conflicts", async () => {
+    const executor = createRecordingExecutor();
+    await users(executor).insertMany([{ email: "a@example.com", name: "A" }]).onConflict(["email"]).merge();
+    await expect(users(executor).insert({ email: "a@example.com" }).onConflict("users_email_key").ignore()).resolves.toBeNull();
+    await users(executor).insertMany([{ email: "a@example.com" }]).ignore();
+
+    expect(executor.queries.map((query) => query.sql)).toEqual([
+      "INSERT INTO users (email, name) VALUES ($1, $2) ON CONFLICT (email) DO UPDATE SET name = EXCLUDED.name RETURNING *",
+      "INSERT INTO users (email) VALUES ($1) ON CONFLICT ON CONSTRAINT users_email_key DO NOTHING RETURNING *",
+      "INSERT INTO users (email) VALUES ($1) ON CONFLICT DO NOTHING RETURNING *",
+    ]);
+  });
+
+  it("rejects a conflict target without merge() or ignore(), and chaining after the insert ran", async () => {
+    const executor = createRecordingExecutor([[{ id: "1", email: "a@example.com" }]]);
+    await expect(users(executor).insert({ email: "a@example.com" }).onConflict(["email"])).rejects.toThrow(
+      "onConflict() must be followed by merge() or ignore()"
+    );
+
+    const pending = users(executor).insert({ email: "a@example.com" });
+    await pending;
+    expect(() => pending.onConflict(["email"])).toThrow(
+      "onConflict() must be chained in the same statement as insert(), before it runs"
+    );
+    expect(executor.queries).toHaveLength(1);
+  });
+
+  it("resolves a skipped upsert to null", async () => {
+    const executor = createRecordingExecutor([[]]);
+    await expect(users(executor).upsert({ email: "a@example.com" }, { ignore: true })).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  bigint,
+  createConstraints,
+  customConstraint,
+  generateCheckExpression,
+  generateCreateTableSQL,
+  integer,
+  QueryBuilder,
+  text,
+  uuid,
+  ValidationError,
+  validateFieldValue,
+  varchar,
+} from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = {
+  id: uuid({ primaryKey: true }),
+  code: varchar({ length: 8, minLength: 2, pattern: /^[a-z]+$/i }),
+  age: integer({ min: 0, max: 150 }),
+  email: text({ email: true, validate: (value: string) => !value.endsWith("@example.com") || "is reserved" }),
+};
+
+interface Person {
+  id: string;
+  code: string;
+  age: number;
+  email: string;
+}
+
+describe("field validation", () => {
+  it("collects the messages of every broken rule", () => {
+    expect(validateFieldValue("1", fields.code)).toEqual([
+      "must be at least 2 characters",
+      "does not match the required pattern",
+    ]);
+    expect(validateFieldValue(151, fields.age)).toEqual(["must be at most 150"]);
+    expect(validateFieldValue("a@example.com", fields.email)).toEqual(["is reserved"]);
+    expect(validateFieldValue(-1n, bigint({ min: 0 }))).toEqual(["must be at least 0"]);
+    expect(validateFieldValue(null, fields.age)).toEqual([]);
+  });
+
+  it("rejects inserts and updates before building the query", () => {
+    const people = new QueryBuilder<Person>("people", createRecordingExecutor(), fields);
+
+    expect(() => people.toSQL("insert", [{ code: "ab" }, { code: "a", email: "nope" }])).toThrow(
+      new ValidationError({
+        "1.code": ["must be at least 2 characters"],
+        "1.email": ["must be a valid email address"],
+      })
+    );
+    expect(() => people.where({ id: "1" }).toSQL("update", { age: -1 })).toThrow(
+      "Validation failed: age must be at least 0"
+    );
+    expect(people.where({ id: "1" }).toSQL("update", { age: 30 }).params).toEqual([30, "1"]);
+  });
+});
+
+describe("CHECK constraints", () => {
+  it("renders validation rules the database can enforce", () => {
+    const constraints = createConstraints({ custom: [customConstraint("adult_code", "CHECK (age >= 18 OR code <> 'x')")] });
+
+    expect(generateCreateTableSQL("people", fields, {}, constraints)).toBe(
+      [
+        "CREATE TABLE people (",
+        "  id UUID NOT NULL,",
+        "  code VARCHAR(8) NOT NULL,",
+        "  age INTEGER NOT NULL,",
+        "  email TEXT NOT NULL,",
+        "  PRIMARY KEY (id),",
+        "  CONSTRAINT adult_code CHECK (age >= 18 OR code <> 'x'),",
+        "  CONSTRAINT people_code_check CHECK (char_length(code) >= 2 AND code ~* '^[a-z]+$'),",
+        "  CONSTRAINT people_age_check CHECK (age >= 0 AND age <= 150)",
+        ");",
+      ].join("\n")
+    );
+  });
+
+  it("only turns patterns PostgreSQL reads the same way into CHECKs", () => {
+    expect(generateCheckExpression("slug", text({ pattern: /^(?:[a-z0-9]+-)*[a-z]{2,8}\.x\/y$/ }))).toBe(
+      "slug ~ '^(?:[a-z0-9]+-)*[a-z]{2,8}\\.x\\/y$'"
+    );
+    expect(generateCheckExpression("name", text({ pattern: /^o'[a-z]+$/ }))).toBe("name ~ '^o''[a-z]+$'");
+
+    // Escape classes, '.', lookarounds and lazy quantifiers are left to the application
+    for (const pattern of [/^\d+$/, /^[\w-]+$/, /a.b/, /^(?!x)/, /a+?/, /[[:alpha:]]/]) {
+      expect(generateCheckExpression("code", text({ pattern }))).toBeNull();
+    }
+  });
+
+  it("rejects pattern flags the database cannot enforce", () => {
+    expect(() => generateCheckExpression("code", text({ pattern: /^[a-z]+$/m }))).toThrow(
+      "Pattern flags 'm' on column 'code' are not supported: only 'i' can be enforced"
+    );
+  });
+
+  it("rejects bounds that cannot be interpolated", () => {
+    expect(() => generateCreateTableSQL("t", { n: integer({ min: NaN }) })).toThrow("Invalid min 'NaN'");
+  });
+});
@@ -0,0 +1,46 @@
+import { decimal, lag, QueryBuilder, rowNumber, sum, timestamp, uuid } from "../src";
+import { createRecordingExecutor } from "./helpers";
+
+const fields = {
+  id: uuid({ primaryKey: true }),
+  userId: uuid(),
+  amount: decimal(),
+  createdAt: timestamp(),
+};
+
+interface Order {
+  id: string;
+  userId: string;
+  amount: number;
+  createdAt: Date;
+}
+
+describe("window functions", () => {
+  it("renders OVER clauses with mapped partition and order columns", () => {
+    const query = new QueryBuilder<Order>("orders", createRecordingExecutor(), fields)
+      .select({
+        id: true,
+        position: rowNumber().over({ partitionBy: ["userId"], orderBy: [{ field: "createdAt", direction: "desc" }] }),
+        runningTotal: sum("amount").over({ partitionBy: ["userId"], orderBy: ["createdAt"] }),
+        previousAmount: lag("amount", 1, 0).over({ orderBy: ["createdAt"] }),
+      })
+      .toSQL();
+
+    expect(query).toEqual({
+      sql:
+        'SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY created_at DESC) AS "position",' +
+        ' SUM(amount) OVER (PARTITION BY user_id ORDER BY created_at ASC) AS "runningTotal",' +
+        ' LAG(amount, 1, $1) OVER (ORDER BY created_at ASC) AS "previousAmount" FROM orders',
+      params: [0],
+    });
+  });
+
+  it("maps window values in the result rows", async () => {
+    const executor = createRecordingExecutor([[{ id: "1", position: "1", runningTotal: "10.50" }]]);
+    const rows = await new QueryBuilder<Order>("orders", executor, fields)
+      .select({ id: true, position: rowNumber().over(), runningTotal: sum("amount").over() })
+      .getMany();
+
+    expect(rows).toEqual([{ id: "1", position: 1, runningTotal: 10.5 }]);
+  });
+});